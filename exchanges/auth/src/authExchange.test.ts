@@ -0,0 +1,316 @@
+import gql from 'graphql-tag';
+import { Subject, makeSubject, pipe, subscribe } from 'wonka';
+
+import {
+  Client,
+  Operation,
+  OperationResult,
+  ExchangeIO,
+  createClient,
+  createRequest,
+  makeResult,
+  makeErrorResult,
+} from '@urql/core';
+
+import { authExchange, AuthExchangeOptions } from './authExchange';
+
+interface AuthState {
+  token: string;
+}
+
+const query = gql`
+  {
+    author {
+      id
+      name
+    }
+  }
+`;
+
+const queryData = {
+  __typename: 'Query',
+  author: { __typename: 'Author', id: '1', name: 'Author' },
+};
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve));
+
+const addAuthToOperation: AuthExchangeOptions<
+  AuthState
+>['addAuthToOperation'] = ({ authState, operation }) => ({
+  ...operation,
+  context: {
+    ...operation.context,
+    fetchOptions: {
+      headers: { Authorization: authState ? authState.token : '' },
+    },
+  },
+});
+
+const getHeader = (operation: Operation) =>
+  (operation.context.fetchOptions as any).headers.Authorization;
+
+let client: Client;
+let forwarded: Operation[];
+let results: OperationResult[];
+let ops: Subject<Operation>;
+let network: Subject<OperationResult>;
+
+const forward: ExchangeIO = ops$ => {
+  pipe(
+    ops$,
+    subscribe(operation => {
+      forwarded.push(operation);
+    })
+  );
+  return network.source;
+};
+
+const run = (options: AuthExchangeOptions<AuthState>) => {
+  pipe(
+    authExchange(options)({ forward, client, dispatchDebug: jest.fn() })(
+      ops.source
+    ),
+    subscribe(result => {
+      results.push(result);
+    })
+  );
+};
+
+let operation: Operation;
+
+beforeEach(() => {
+  client = createClient({ url: 'http://localhost:3000/graphql' });
+  operation = client.createRequestOperation('query', createRequest(query));
+  forwarded = [];
+  results = [];
+  ops = makeSubject<Operation>();
+  network = makeSubject<OperationResult>();
+});
+
+it('waits for the initial auth state and adds it to operations', async () => {
+  const getAuth = jest.fn(() => Promise.resolve({ token: 'initial' }));
+  run({ getAuth, addAuthToOperation });
+
+  ops.next(operation);
+  expect(getAuth).toHaveBeenCalledWith({ authState: null });
+  expect(forwarded).toEqual([]);
+
+  await nextTick();
+  expect(forwarded).toHaveLength(1);
+  expect(getHeader(forwarded[0])).toBe('initial');
+
+  ops.next(operation);
+  expect(forwarded).toHaveLength(2);
+  expect(getAuth).toHaveBeenCalledTimes(1);
+});
+
+it('refreshes the auth state and replays operations after a 401 response', async () => {
+  const reexecuteOperation = jest
+    .spyOn(client, 'reexecuteOperation')
+    .mockImplementation(operation => ops.next(operation));
+
+  const getAuth = jest
+    .fn()
+    .mockResolvedValueOnce({ token: 'expired' })
+    .mockResolvedValueOnce({ token: 'refreshed' });
+
+  run({ getAuth, addAuthToOperation });
+  await nextTick();
+
+  ops.next(operation);
+  expect(getHeader(forwarded[0])).toBe('expired');
+
+  network.next(
+    makeErrorResult(forwarded[0], new Error('Unauthorized'), { status: 401 })
+  );
+
+  expect(results).toEqual([]);
+  expect(reexecuteOperation).toHaveBeenCalledTimes(1);
+  expect(getAuth).toHaveBeenCalledTimes(2);
+  expect(getAuth).toHaveBeenLastCalledWith({ authState: { token: 'expired' } });
+  expect(forwarded).toHaveLength(1);
+
+  await nextTick();
+  expect(forwarded).toHaveLength(2);
+  expect(getHeader(forwarded[1])).toBe('refreshed');
+
+  network.next({ operation: forwarded[1], data: queryData });
+  expect(results).toHaveLength(1);
+  expect(results[0].data).toEqual(queryData);
+});
+
+it('replays mutations after an auth error', async () => {
+  const reexecuteOperation = jest.spyOn(client, 'reexecuteOperation');
+  const dispatchOperation = jest
+    .spyOn(client, 'dispatchOperation')
+    .mockImplementation(operation => ops.next(operation as Operation));
+
+  const getAuth = jest
+    .fn()
+    .mockResolvedValueOnce({ token: 'expired' })
+    .mockResolvedValueOnce({ token: 'refreshed' });
+
+  run({ getAuth, addAuthToOperation });
+  await nextTick();
+
+  const mutationData = {
+    __typename: 'Mutation',
+    updateAuthor: queryData.author,
+  };
+  const mutation = client.createRequestOperation(
+    'mutation',
+    createRequest(gql`
+      mutation {
+        updateAuthor {
+          id
+          name
+        }
+      }
+    `)
+  );
+
+  ops.next(mutation);
+  network.next(
+    makeErrorResult(forwarded[0], new Error('Unauthorized'), { status: 401 })
+  );
+
+  expect(results).toEqual([]);
+  expect(reexecuteOperation).not.toHaveBeenCalled();
+  expect(dispatchOperation).toHaveBeenCalledTimes(1);
+
+  await nextTick();
+  expect(forwarded).toHaveLength(2);
+  expect(forwarded[1].operationName).toBe('mutation');
+  expect(getHeader(forwarded[1])).toBe('refreshed');
+
+  network.next({ operation: forwarded[1], data: mutationData });
+  expect(results).toHaveLength(1);
+  expect(results[0].data).toEqual(mutationData);
+});
+
+it('detects UNAUTHENTICATED GraphQL errors', async () => {
+  jest
+    .spyOn(client, 'reexecuteOperation')
+    .mockImplementation(operation => ops.next(operation));
+
+  const getAuth = jest.fn(() => Promise.resolve({ token: 'token' }));
+  run({ getAuth, addAuthToOperation });
+  await nextTick();
+
+  ops.next(operation);
+  network.next(
+    makeResult(forwarded[0], {
+      data: null,
+      errors: [{ message: 'Denied', extensions: { code: 'UNAUTHENTICATED' } }],
+    })
+  );
+
+  expect(results).toEqual([]);
+  expect(getAuth).toHaveBeenCalledTimes(2);
+});
+
+it('passes on auth errors that persist after a refresh', async () => {
+  jest
+    .spyOn(client, 'reexecuteOperation')
+    .mockImplementation(operation => ops.next(operation));
+
+  const getAuth = jest.fn(() => Promise.resolve({ token: 'token' }));
+  run({ getAuth, addAuthToOperation });
+  await nextTick();
+
+  ops.next(operation);
+  network.next(
+    makeErrorResult(forwarded[0], new Error('Unauthorized'), { status: 401 })
+  );
+  await nextTick();
+
+  const errorResult = makeErrorResult(forwarded[1], new Error('Unauthorized'), {
+    status: 401,
+  });
+  network.next(errorResult);
+
+  expect(results).toEqual([errorResult]);
+  expect(getAuth).toHaveBeenCalledTimes(2);
+});
+
+it('passes on other errors', async () => {
+  const reexecuteOperation = jest.spyOn(client, 'reexecuteOperation');
+  const getAuth = jest.fn(() => Promise.resolve({ token: 'token' }));
+  run({ getAuth, addAuthToOperation });
+  await nextTick();
+
+  ops.next(operation);
+  const errorResult = makeErrorResult(forwarded[0], new Error('Offline'));
+  network.next(errorResult);
+
+  expect(results).toEqual([errorResult]);
+  expect(reexecuteOperation).not.toHaveBeenCalled();
+});
+
+it('supports a custom didAuthError check', async () => {
+  jest
+    .spyOn(client, 'reexecuteOperation')
+    .mockImplementation(operation => ops.next(operation));
+
+  const getAuth = jest.fn(() => Promise.resolve({ token: 'token' }));
+  const didAuthError = jest.fn(({ error }) =>
+    error.message.includes('Expired')
+  );
+  run({ getAuth, addAuthToOperation, didAuthError });
+  await nextTick();
+
+  ops.next(operation);
+  network.next(
+    makeErrorResult(forwarded[0], new Error('Unauthorized'), { status: 401 })
+  );
+  expect(results).toHaveLength(1);
+
+  ops.next(operation);
+  network.next(makeErrorResult(forwarded[1], new Error('Expired')));
+  expect(results).toHaveLength(1);
+  expect(getAuth).toHaveBeenCalledTimes(2);
+});
+
+it('refreshes the auth state before sending operations when willAuthError is true', async () => {
+  const getAuth = jest
+    .fn()
+    .mockResolvedValueOnce({ token: 'expired' })
+    .mockResolvedValueOnce({ token: 'refreshed' });
+  const willAuthError = jest.fn(
+    ({ authState }) => !!authState && authState.token === 'expired'
+  );
+
+  run({ getAuth, addAuthToOperation, willAuthError });
+  await nextTick();
+
+  ops.next(operation);
+  expect(forwarded).toEqual([]);
+  expect(getAuth).toHaveBeenCalledTimes(2);
+
+  await nextTick();
+  expect(forwarded).toHaveLength(1);
+  expect(getHeader(forwarded[0])).toBe('refreshed');
+});
+
+it('drops waiting operations that are torn down', async () => {
+  const getAuth = jest.fn(() => Promise.resolve({ token: 'token' }));
+  run({ getAuth, addAuthToOperation });
+
+  ops.next(operation);
+  const teardown = client.createRequestOperation('teardown', operation);
+  ops.next(teardown);
+
+  await nextTick();
+  expect(forwarded).toEqual([teardown]);
+});
+
+it('continues without auth state when getAuth rejects', async () => {
+  const getAuth = jest.fn(() => Promise.reject(new Error('Failed')));
+  run({ getAuth, addAuthToOperation });
+
+  ops.next(operation);
+  await nextTick();
+
+  expect(forwarded).toHaveLength(1);
+  expect(getHeader(forwarded[0])).toBe('');
+});
@@ -0,0 +1,136 @@
+import { filter, makeSubject, map, merge, onEnd, pipe, share } from 'wonka';
+import { CombinedError, Exchange, Operation } from '@urql/core';
+
+export interface AuthExchangeOptions<T> {
+  /** Adds the auth state to an operation, e.g. as an `Authorization` header in its `fetchOptions`. */
+  addAuthToOperation(params: {
+    authState: T | null;
+    operation: Operation;
+  }): Operation;
+  /** Retrieves the initial auth state, and refreshes it after an auth error. */
+  getAuth(params: { authState: T | null }): Promise<T | null>;
+  /** Checks whether a result's error is an auth error. Defaults to `401` responses and `UNAUTHENTICATED` errors. */
+  didAuthError?(params: { error: CombinedError; authState: T | null }): boolean;
+  /** Checks whether an operation will fail before it's sent, e.g. because a token has expired, to refresh the auth state first. */
+  willAuthError?(params: {
+    operation: Operation;
+    authState: T | null;
+  }): boolean;
+}
+
+const isAuthError = ({ error }: { error: CombinedError }): boolean =>
+  (!!error.response && error.response.status === 401) ||
+  error.graphQLErrors.some(
+    graphQLError =>
+      !!graphQLError.extensions &&
+      graphQLError.extensions.code === 'UNAUTHENTICATED'
+  );
+
+export const authExchange = <T>(options: AuthExchangeOptions<T>): Exchange => ({
+  client,
+  forward,
+}) => {
+  const { addAuthToOperation, getAuth, willAuthError } = options;
+  const didAuthError = options.didAuthError || isAuthError;
+
+  let authState: T | null = null;
+  let authPromise: Promise<void> | null = null;
+
+  // Operations that are held back while the auth state is retrieved
+  const queue: Map<number, Operation> = new Map();
+  // Operations that have been replayed after an auth error, which aren't replayed again
+  const replayed: Set<number> = new Set();
+
+  const { source: flushed$, next: flush } = makeSubject<Operation>();
+
+  const refreshAuth = () => {
+    if (authPromise) return;
+
+    authPromise = getAuth({ authState })
+      .then(
+        newAuthState => {
+          authState = newAuthState;
+        },
+        () => {
+          authState = null;
+        }
+      )
+      .then(() => {
+        authPromise = null;
+        const operations = Array.from(queue.values());
+        queue.clear();
+        operations.forEach(flush);
+      });
+  };
+
+  // The initial auth state is retrieved before any operation is sent
+  refreshAuth();
+
+  return ops$ => {
+    const sharedOps$ = share(ops$);
+
+    const teardownOps$ = pipe(
+      sharedOps$,
+      filter(operation => {
+        if (operation.operationName !== 'teardown') return false;
+        queue.delete(operation.key);
+        replayed.delete(operation.key);
+        return true;
+      })
+    );
+
+    const pendingOps$ = pipe(
+      sharedOps$,
+      filter(operation => {
+        if (operation.operationName === 'teardown') return false;
+
+        if (
+          authPromise ||
+          (willAuthError && willAuthError({ operation, authState }))
+        ) {
+          // Operations wait while the auth state is refreshed
+          queue.set(operation.key, operation);
+          refreshAuth();
+          return false;
+        }
+
+        return true;
+      })
+    );
+
+    const authedOps$ = pipe(
+      merge([pendingOps$, flushed$]),
+      map(operation => addAuthToOperation({ authState, operation }))
+    );
+
+    return pipe(
+      forward(merge([authedOps$, teardownOps$])),
+      filter(({ operation, error }) => {
+        const { key } = operation;
+        if (!error || !didAuthError({ error, authState })) {
+          replayed.delete(key);
+          return true;
+        } else if (replayed.has(key)) {
+          // The auth error persists after a refresh and is passed on
+          replayed.delete(key);
+          return true;
+        }
+
+        // Failed operations are replayed once the auth state has been refreshed
+        replayed.add(key);
+        refreshAuth();
+        if (operation.operationName === 'mutation') {
+          // Mutations aren't active on the client and can't be reexecuted
+          client.dispatchOperation(operation);
+        } else {
+          client.reexecuteOperation(operation);
+        }
+        return false;
+      }),
+      onEnd(() => {
+        queue.clear();
+        replayed.clear();
+      })
+    );
+  };
+};
@@ -0,0 +1,320 @@
+import { Client, Operation, OperationResult } from '@urql/core';
+import {
+  empty,
+  fromArray,
+  fromValue,
+  makeSubject,
+  pipe,
+  Source,
+  subscribe,
+  toPromise,
+} from 'wonka';
+
+import {
+  batchFetchExchange,
+  BatchFetchExchangeOptions,
+} from './batchFetchExchange';
+
+import {
+  queryOperation,
+  otherQueryOperation,
+  mutationOperation,
+} from './test-utils';
+
+const fetch = (global as any).fetch as jest.Mock;
+const abort = jest.fn();
+
+beforeAll(() => {
+  (global as any).AbortController = function AbortController() {
+    this.signal = undefined;
+    this.abort = abort;
+  };
+});
+
+afterEach(() => {
+  fetch.mockClear();
+  abort.mockClear();
+});
+
+afterAll(() => {
+  (global as any).AbortController = undefined;
+});
+
+const exchangeArgs = {
+  forward: () => empty as Source<OperationResult>,
+  client: {} as Client,
+  dispatchDebug: jest.fn(),
+};
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve));
+
+const collect = (
+  ops$: Source<Operation>,
+  options: BatchFetchExchangeOptions = { batchInterval: 0 }
+) => {
+  const results: OperationResult[] = [];
+  const subscription = pipe(
+    ops$,
+    batchFetchExchange(options)(exchangeArgs),
+    subscribe(result => {
+      results.push(result);
+    })
+  );
+
+  return { results, subscription };
+};
+
+describe('on success', () => {
+  it('sends concurrent operations as a single batched request', async () => {
+    fetch.mockResolvedValue({
+      status: 200,
+      json: jest
+        .fn()
+        .mockResolvedValue([
+          { data: { user: { id: 1 } } },
+          { data: { todos: [] } },
+        ]),
+    });
+
+    const { results } = collect(
+      fromArray([queryOperation, otherQueryOperation])
+    );
+
+    await nextTick();
+    await nextTick();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0][0]).toBe('http://localhost:3000/graphql');
+
+    const body = JSON.parse(fetch.mock.calls[0][1].body);
+    expect(body).toHaveLength(2);
+    expect(body[0].operationName).toBe('getUser');
+    expect(body[0].variables).toEqual({ name: 'Clara' });
+    expect(body[1].operationName).toBe('getTodos');
+
+    expect(results).toHaveLength(2);
+    expect(results[0].operation).toBe(queryOperation);
+    expect(results[0].data).toEqual({ user: { id: 1 } });
+    expect(results[1].operation).toBe(otherQueryOperation);
+    expect(results[1].data).toEqual({ todos: [] });
+  });
+
+  it('sends a single operation without wrapping it in a batch', async () => {
+    fetch.mockResolvedValue({
+      status: 200,
+      json: jest.fn().mockResolvedValue({ data: { user: { id: 1 } } }),
+    });
+
+    const data = await pipe(
+      fromValue(queryOperation),
+      batchFetchExchange({ batchInterval: 0 })(exchangeArgs),
+      toPromise
+    );
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(fetch.mock.calls[0][1].body).operationName).toBe(
+      'getUser'
+    );
+    expect(data.data).toEqual({ user: { id: 1 } });
+  });
+
+  it('splits operations with differing urls into separate requests', async () => {
+    fetch.mockResolvedValue({
+      status: 200,
+      json: jest.fn().mockResolvedValue({ data: {} }),
+    });
+
+    const otherOperation = {
+      ...otherQueryOperation,
+      context: {
+        ...otherQueryOperation.context,
+        url: 'http://localhost:3000/other',
+      },
+    };
+
+    const { results } = collect(fromArray([queryOperation, otherOperation]));
+
+    await nextTick();
+    await nextTick();
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls[0][0]).toBe('http://localhost:3000/graphql');
+    expect(fetch.mock.calls[1][0]).toBe('http://localhost:3000/other');
+    expect(results).toHaveLength(2);
+  });
+
+  it('splits operations with differing fetch functions into separate requests', async () => {
+    const customFetch = jest.fn().mockResolvedValue({
+      status: 200,
+      json: jest.fn().mockResolvedValue({ data: { todos: [] } }),
+    });
+
+    fetch.mockResolvedValue({
+      status: 200,
+      json: jest.fn().mockResolvedValue({ data: { user: { id: 1 } } }),
+    });
+
+    const otherOperation = {
+      ...otherQueryOperation,
+      context: {
+        ...otherQueryOperation.context,
+        fetch: customFetch,
+      },
+    };
+
+    const { results } = collect(fromArray([queryOperation, otherOperation]));
+
+    await nextTick();
+    await nextTick();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(fetch.mock.calls[0][1].body).operationName).toBe(
+      'getUser'
+    );
+    expect(customFetch).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(customFetch.mock.calls[0][1].body).operationName).toBe(
+      'getTodos'
+    );
+    expect(results).toHaveLength(2);
+    expect(results[0].data).toEqual({ user: { id: 1 } });
+    expect(results[1].data).toEqual({ todos: [] });
+  });
+
+  it('flushes a batch immediately when maxBatchSize is reached', async () => {
+    fetch.mockResolvedValue({
+      status: 200,
+      json: jest.fn().mockResolvedValue([{ data: {} }, { data: {} }]),
+    });
+
+    collect(fromArray([queryOperation, otherQueryOperation]), {
+      batchInterval: 1000,
+      maxBatchSize: 2,
+    });
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends GET-preferring queries individually', async () => {
+    fetch.mockResolvedValue({
+      status: 200,
+      json: jest.fn().mockResolvedValue({ data: {} }),
+    });
+
+    const getOperation = {
+      ...queryOperation,
+      context: { ...queryOperation.context, preferGetMethod: true },
+    };
+
+    const { results } = collect(fromArray([getOperation, mutationOperation]));
+
+    await nextTick();
+    await nextTick();
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls[0][1].method).toBe('GET');
+    expect(fetch.mock.calls[1][1].method).toBe('POST');
+    expect(results).toHaveLength(2);
+  });
+});
+
+describe('on error', () => {
+  it('returns an error result for every operation of a failed batch', async () => {
+    fetch.mockResolvedValue({
+      status: 400,
+      statusText: 'Bad Request',
+      json: jest.fn().mockResolvedValue({}),
+    });
+
+    const { results } = collect(
+      fromArray([queryOperation, otherQueryOperation])
+    );
+
+    await nextTick();
+    await nextTick();
+
+    expect(results).toHaveLength(2);
+    expect(results[0].error!.networkError!.message).toBe('Bad Request');
+    expect(results[1].error!.networkError!.message).toBe('Bad Request');
+  });
+
+  it('applies a single error response to every operation of a batch', async () => {
+    fetch.mockResolvedValue({
+      status: 400,
+      json: jest
+        .fn()
+        .mockResolvedValue({ errors: [{ message: 'Batching is disabled' }] }),
+    });
+
+    const { results } = collect(
+      fromArray([queryOperation, otherQueryOperation])
+    );
+
+    await nextTick();
+    await nextTick();
+
+    expect(results).toHaveLength(2);
+    expect(results[0].error!.graphQLErrors[0].message).toBe(
+      'Batching is disabled'
+    );
+    expect(results[1].error!.graphQLErrors[0].message).toBe(
+      'Batching is disabled'
+    );
+  });
+});
+
+describe('on teardown', () => {
+  it('removes torn down operations from a pending batch', async () => {
+    fetch.mockResolvedValue({
+      status: 200,
+      json: jest.fn().mockResolvedValue({ data: {} }),
+    });
+
+    const { source: ops$, next } = makeSubject<Operation>();
+    const { results } = collect(ops$);
+
+    next(queryOperation);
+    next(otherQueryOperation);
+    next({ ...queryOperation, operationName: 'teardown' });
+
+    await nextTick();
+    await nextTick();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(fetch.mock.calls[0][1].body).operationName).toBe(
+      'getTodos'
+    );
+    expect(results).toHaveLength(1);
+    expect(results[0].operation).toBe(otherQueryOperation);
+  });
+
+  it('does not send a batch when all operations are torn down', async () => {
+    const { subscription } = collect(
+      fromArray([queryOperation, otherQueryOperation])
+    );
+
+    subscription.unsubscribe();
+    await nextTick();
+
+    expect(fetch).toHaveBeenCalledTimes(0);
+    expect(abort).toHaveBeenCalledTimes(0);
+  });
+
+  it('aborts an in-flight batch only once all operations are torn down', async () => {
+    fetch.mockReturnValueOnce(new Promise(() => undefined));
+
+    const { source: ops$, next } = makeSubject<Operation>();
+    collect(ops$);
+
+    next(queryOperation);
+    next(otherQueryOperation);
+    await nextTick();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    next({ ...queryOperation, operationName: 'teardown' });
+    expect(abort).toHaveBeenCalledTimes(0);
+
+    next({ ...otherQueryOperation, operationName: 'teardown' });
+    expect(abort).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,364 @@
+import {
+  Source,
+  filter,
+  make,
+  merge,
+  mergeMap,
+  pipe,
+  share,
+  takeUntil,
+  onPush,
+} from 'wonka';
+
+import {
+  Exchange,
+  ExecutionResult,
+  Operation,
+  OperationResult,
+  makeResult,
+  makeErrorResult,
+  stringifyVariables,
+  withTimeout,
+} from '@urql/core';
+
+import {
+  FetchBody,
+  makeFetchBody,
+  makeFetchURL,
+  makeFetchOptions,
+  makeFetchSource,
+} from '@urql/core/internal';
+
+export interface BatchFetchExchangeOptions {
+  /** The time in milliseconds during which operations are collected into a single batch. */
+  batchInterval?: number;
+  /** The maximum number of operations that are sent as part of a single batch. */
+  maxBatchSize?: number;
+}
+
+interface BatchEntry {
+  operation: Operation;
+  body: FetchBody;
+  ended: boolean;
+  onResult: (result: OperationResult) => void;
+}
+
+interface Batch {
+  key: string;
+  url: string;
+  fetchOptions: RequestInit;
+  fetcher: typeof fetch | undefined;
+  entries: BatchEntry[];
+  timeoutId: ReturnType<typeof setTimeout>;
+  inFlight: boolean;
+  abortController: AbortController | null;
+}
+
+const shouldUseGet = (operation: Operation): boolean =>
+  operation.operationName === 'query' && !!operation.context.preferGetMethod;
+
+const hasResultContent = (result: unknown): boolean =>
+  typeof result === 'object' &&
+  result !== null &&
+  ('data' in result || 'errors' in result);
+
+export const batchFetchExchange = (
+  options?: BatchFetchExchangeOptions
+): Exchange => ({ forward, dispatchDebug }) => {
+  if (!options) options = {};
+
+  const batchInterval =
+    options.batchInterval !== undefined ? options.batchInterval : 10;
+  const maxBatchSize = options.maxBatchSize || 10;
+
+  // Pending batches are keyed by their URL, fetch options, and custom fetch
+  // function, since only operations that share all three may be sent in the
+  // same request
+  const batches: Map<string, Batch> = new Map();
+
+  // Custom fetch functions can't be serialised, so they're keyed by an ID instead
+  const fetcherIds: WeakMap<typeof fetch, number> = new WeakMap();
+  let nextFetcherId = 1;
+
+  const getFetcherId = (fetcher: typeof fetch | undefined): number => {
+    if (!fetcher) return 0;
+    let id = fetcherIds.get(fetcher);
+    if (id === undefined) fetcherIds.set(fetcher, (id = nextFetcherId++));
+    return id;
+  };
+
+  const resolveEntry = (
+    batch: Batch,
+    entry: BatchEntry,
+    result: OperationResult
+  ) => {
+    if (entry.ended) return;
+
+    const error = !result.data ? result.error : undefined;
+
+    dispatchDebug({
+      type: error ? 'fetchError' : 'fetchSuccess',
+      message: `A ${
+        error ? 'failed' : 'successful'
+      } fetch response has been returned.`,
+      operation: entry.operation,
+      data: {
+        url: batch.url,
+        fetchOptions: batch.fetchOptions,
+        value: error || result,
+      },
+    });
+
+    entry.onResult(result);
+  };
+
+  const executeBatch = (batch: Batch) => {
+    const { entries, url, fetcher } = batch;
+    const isBatched = entries.length > 1;
+    const fetchOptions = (batch.fetchOptions = {
+      ...batch.fetchOptions,
+      body: JSON.stringify(
+        isBatched ? entries.map(entry => entry.body) : entries[0].body
+      ),
+    });
+
+    batch.inFlight = true;
+    batch.abortController =
+      typeof AbortController !== 'undefined' ? new AbortController() : null;
+    if (batch.abortController) {
+      fetchOptions.signal = batch.abortController.signal;
+    }
+
+    for (let i = 0, l = entries.length; i < l; i++) {
+      dispatchDebug({
+        type: 'fetchRequest',
+        message: isBatched
+          ? `A batched fetch request for ${l} operations is being executed.`
+          : 'A fetch request is being executed.',
+        operation: entries[i].operation,
+        data: {
+          url,
+          fetchOptions,
+        },
+      });
+    }
+
+    let statusNotOk = false;
+    let response: Response;
+
+    (fetcher || fetch)(url, fetchOptions)
+      .then((res: Response) => {
+        response = res;
+        statusNotOk =
+          res.status < 200 ||
+          res.status >= (fetchOptions.redirect === 'manual' ? 400 : 300);
+        return res.json();
+      })
+      .then((payload: ExecutionResult | ExecutionResult[]) => {
+        // A server may respond to an entire batch with a single result, for
+        // instance when it rejects the request before executing any operations
+        const results =
+          isBatched && Array.isArray(payload)
+            ? payload
+            : entries.map(() => payload);
+
+        if (results.length !== entries.length) {
+          throw new Error('Batched response length mismatch');
+        }
+
+        for (let i = 0, l = entries.length; i < l; i++) {
+          const entry = entries[i];
+          const result = results[i];
+          resolveEntry(
+            batch,
+            entry,
+            hasResultContent(result)
+              ? makeResult(entry.operation, result, response)
+              : makeErrorResult(
+                  entry.operation,
+                  new Error(statusNotOk ? response.statusText : 'No Content'),
+                  response
+                )
+          );
+        }
+      })
+      .catch((error: Error) => {
+        if (error.name !== 'AbortError') {
+          for (let i = 0, l = entries.length; i < l; i++) {
+            resolveEntry(
+              batch,
+              entries[i],
+              makeErrorResult(
+                entries[i].operation,
+                statusNotOk ? new Error(response.statusText) : error,
+                response
+              )
+            );
+          }
+        }
+      })
+      .then(() => {
+        batch.inFlight = false;
+      });
+  };
+
+  const flushBatch = (batch: Batch) => {
+    clearTimeout(batch.timeoutId);
+    if (batches.get(batch.key) === batch) {
+      batches.delete(batch.key);
+      if (batch.entries.length) executeBatch(batch);
+    }
+  };
+
+  const addToBatch = (entry: BatchEntry): Batch => {
+    const url = makeFetchURL(entry.operation);
+    const fetchOptions = makeFetchOptions(entry.operation);
+    const fetcher = entry.operation.context.fetch;
+    const key =
+      getFetcherId(fetcher) + '|' + url + stringifyVariables(fetchOptions);
+
+    let batch = batches.get(key);
+    if (!batch) {
+      const newBatch: Batch = {
+        key,
+        url,
+        fetchOptions,
+        fetcher,
+        entries: [],
+        timeoutId: setTimeout(() => {
+          flushBatch(newBatch);
+        }, batchInterval),
+        inFlight: false,
+        abortController: null,
+      };
+
+      batches.set(key, (batch = newBatch));
+    }
+
+    batch.entries.push(entry);
+    if (batch.entries.length >= maxBatchSize) flushBatch(batch);
+    return batch;
+  };
+
+  const removeFromBatch = (batch: Batch, entry: BatchEntry) => {
+    entry.ended = true;
+
+    if (batches.get(batch.key) === batch) {
+      // The batch hasn't been sent yet, so the operation is simply dropped
+      const index = batch.entries.indexOf(entry);
+      if (index > -1) batch.entries.splice(index, 1);
+      if (!batch.entries.length) {
+        clearTimeout(batch.timeoutId);
+        batches.delete(batch.key);
+      }
+    } else if (
+      batch.inFlight &&
+      batch.abortController &&
+      batch.entries.every(entry => entry.ended)
+    ) {
+      // The request is only aborted once no operation needs its results anymore
+      batch.abortController.abort();
+    }
+  };
+
+  const makeBatchSource = (operation: Operation): Source<OperationResult> => {
+    const batch$ = make<OperationResult>(({ next, complete }) => {
+      const entry: BatchEntry = {
+        operation,
+        body: makeFetchBody(operation),
+        ended: false,
+        onResult: result => {
+          entry.ended = true;
+          next(result);
+          complete();
+        },
+      };
+
+      const batch = addToBatch(entry);
+
+      return () => {
+        if (!entry.ended) removeFromBatch(batch, entry);
+      };
+    });
+
+    // Each batched operation times out individually and is then removed from its batch
+    return pipe(batch$, withTimeout(operation));
+  };
+
+  const makeSingleSource = (operation: Operation): Source<OperationResult> => {
+    const body = makeFetchBody(operation);
+    const url = makeFetchURL(operation, body);
+    const fetchOptions = makeFetchOptions(operation, body);
+
+    dispatchDebug({
+      type: 'fetchRequest',
+      message: 'A fetch request is being executed.',
+      operation,
+      data: {
+        url,
+        fetchOptions,
+      },
+    });
+
+    return pipe(
+      makeFetchSource(operation, url, fetchOptions),
+      onPush(result => {
+        const error = !result.data ? result.error : undefined;
+
+        dispatchDebug({
+          type: error ? 'fetchError' : 'fetchSuccess',
+          message: `A ${
+            error ? 'failed' : 'successful'
+          } fetch response has been returned.`,
+          operation,
+          data: {
+            url,
+            fetchOptions,
+            value: error || result,
+          },
+        });
+      })
+    );
+  };
+
+  return ops$ => {
+    const sharedOps$ = share(ops$);
+    const fetchResults$ = pipe(
+      sharedOps$,
+      filter(operation => {
+        return (
+          operation.operationName === 'query' ||
+          operation.operationName === 'mutation'
+        );
+      }),
+      mergeMap(operation => {
+        const { key } = operation;
+        const teardown$ = pipe(
+          sharedOps$,
+          filter(op => op.operationName === 'teardown' && op.key === key)
+        );
+
+        // GET requests can't carry a batch, so they're sent individually
+        return pipe(
+          shouldUseGet(operation)
+            ? makeSingleSource(operation)
+            : makeBatchSource(operation),
+          takeUntil(teardown$)
+        );
+      })
+    );
+
+    const forward$ = pipe(
+      sharedOps$,
+      filter(operation => {
+        return (
+          operation.operationName !== 'query' &&
+          operation.operationName !== 'mutation'
+        );
+      }),
+      forward
+    );
+
+    return merge([fetchResults$, forward$]);
+  };
+};
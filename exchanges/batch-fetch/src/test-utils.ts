@@ -0,0 +1,70 @@
+import { GraphQLRequest, OperationContext, Operation } from '@urql/core';
+import gql from 'graphql-tag';
+
+const context: OperationContext = {
+  fetchOptions: {
+    method: 'POST',
+  },
+  requestPolicy: 'cache-first',
+  url: 'http://localhost:3000/graphql',
+};
+
+const queryGql: GraphQLRequest = {
+  key: 2,
+  query: gql`
+    query getUser($name: String) {
+      user(name: $name) {
+        id
+        firstName
+        lastName
+      }
+    }
+  `,
+  variables: {
+    name: 'Clara',
+  },
+};
+
+const otherQueryGql: GraphQLRequest = {
+  key: 3,
+  query: gql`
+    query getTodos {
+      todos {
+        id
+        text
+      }
+    }
+  `,
+};
+
+const mutationGql: GraphQLRequest = {
+  key: 4,
+  query: gql`
+    mutation AddUser($name: String) {
+      addUser(name: $name) {
+        name
+      }
+    }
+  `,
+  variables: {
+    name: 'Clara',
+  },
+};
+
+export const queryOperation: Operation = {
+  ...queryGql,
+  operationName: 'query',
+  context,
+};
+
+export const otherQueryOperation: Operation = {
+  ...otherQueryGql,
+  operationName: 'query',
+  context,
+};
+
+export const mutationOperation: Operation = {
+  ...mutationGql,
+  operationName: 'mutation',
+  context,
+};
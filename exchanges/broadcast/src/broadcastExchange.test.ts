@@ -0,0 +1,383 @@
+import gql from 'graphql-tag';
+import { makeSubject, never, pipe, subscribe } from 'wonka';
+
+import {
+  Client,
+  Operation,
+  OperationResult,
+  ExchangeIO,
+  cacheExchange,
+  composeExchanges,
+  createClient,
+  createRequest,
+  makeResult,
+  makeErrorResult,
+} from '@urql/core';
+
+import {
+  broadcastExchange,
+  BroadcastChannelLike,
+  BroadcastMessage,
+} from './broadcastExchange';
+
+type Listener = (event: { data: BroadcastMessage }) => void;
+
+// Delivers messages synchronously to all other channels, like tabs sharing a BroadcastChannel
+const makeChannelGroup = () => {
+  const group: Array<{ listeners: Set<Listener> }> = [];
+
+  return (): BroadcastChannelLike & { close: jest.Mock } => {
+    const entry = { listeners: new Set<Listener>() };
+    group.push(entry);
+    return {
+      postMessage(data) {
+        group.forEach(other => {
+          if (other !== entry) other.listeners.forEach(fn => fn({ data }));
+        });
+      },
+      addEventListener(_type, listener) {
+        entry.listeners.add(listener);
+      },
+      removeEventListener(_type, listener) {
+        entry.listeners.delete(listener);
+      },
+      close: jest.fn(),
+    };
+  };
+};
+
+const query = gql`
+  {
+    author {
+      __typename
+      id
+      name
+    }
+  }
+`;
+
+const mutation = gql`
+  mutation {
+    updateAuthor {
+      __typename
+      id
+      name
+    }
+  }
+`;
+
+const queryData = {
+  __typename: 'Query',
+  author: { __typename: 'Author', id: '1', name: 'Author' },
+};
+
+const mutationData = {
+  __typename: 'Mutation',
+  updateAuthor: { __typename: 'Author', id: '1', name: 'New' },
+};
+
+const makeTab = (client: Client, channel: BroadcastChannelLike) => {
+  const forwarded: Operation[] = [];
+  const results: OperationResult[] = [];
+  const ops = makeSubject<Operation>();
+  const network = makeSubject<OperationResult>();
+
+  const forward: ExchangeIO = ops$ => {
+    pipe(
+      ops$,
+      subscribe(operation => {
+        forwarded.push(operation);
+      })
+    );
+    return network.source;
+  };
+
+  const subscription = pipe(
+    broadcastExchange({ channel, timeout: 100 })({
+      forward,
+      client,
+      dispatchDebug: jest.fn(),
+    })(ops.source),
+    subscribe(result => {
+      results.push(result);
+    })
+  );
+
+  return {
+    forwarded,
+    results,
+    subscription,
+    dispatch: ops.next,
+    respond: network.next,
+  };
+};
+
+let client: Client;
+let makeChannel: ReturnType<typeof makeChannelGroup>;
+
+beforeEach(() => {
+  client = createClient({ url: 'http://localhost:3000/graphql' });
+  makeChannel = makeChannelGroup();
+});
+
+it('resolves identical queries of other tabs with a single request', () => {
+  const tabA = makeTab(client, makeChannel());
+  const tabB = makeTab(client, makeChannel());
+  const operation = client.createRequestOperation(
+    'query',
+    createRequest(query)
+  );
+
+  tabA.dispatch(operation);
+  tabB.dispatch(operation);
+
+  expect(tabA.forwarded).toEqual([operation]);
+  expect(tabB.forwarded).toEqual([]);
+
+  tabA.respond({ operation, data: queryData });
+
+  expect(tabA.results).toEqual([{ operation, data: queryData }]);
+  expect(tabB.results).toHaveLength(1);
+  expect(tabB.results[0].operation).toBe(operation);
+  expect(tabB.results[0].data).toEqual(queryData);
+  expect(tabB.forwarded).toEqual([]);
+});
+
+it('shares GraphQL errors with other tabs', () => {
+  const tabA = makeTab(client, makeChannel());
+  const tabB = makeTab(client, makeChannel());
+  const operation = client.createRequestOperation(
+    'query',
+    createRequest(query)
+  );
+
+  tabA.dispatch(operation);
+  tabB.dispatch(operation);
+  tabA.respond(
+    makeResult(operation, {
+      data: null,
+      errors: [{ message: 'Not allowed', path: ['author'] }],
+    })
+  );
+
+  expect(tabB.results).toHaveLength(1);
+  expect(tabB.results[0].data).toBe(null);
+  expect(tabB.results[0].error!.graphQLErrors[0].message).toBe('Not allowed');
+});
+
+it('shares incremental results with other tabs once they are complete', () => {
+  const tabA = makeTab(client, makeChannel());
+  const tabB = makeTab(client, makeChannel());
+  const operation = client.createRequestOperation(
+    'query',
+    createRequest(query)
+  );
+
+  tabA.dispatch(operation);
+  tabB.dispatch(operation);
+
+  tabA.respond({
+    operation,
+    data: { __typename: 'Query', author: null },
+    hasNext: true,
+  });
+
+  expect(tabA.results).toHaveLength(1);
+  expect(tabB.results).toEqual([]);
+
+  tabA.respond({ operation, data: queryData, hasNext: false });
+
+  expect(tabA.results).toHaveLength(2);
+  expect(tabB.results).toHaveLength(1);
+  expect(tabB.results[0].data).toEqual(queryData);
+  expect(tabB.forwarded).toEqual([]);
+});
+
+it('sends queries itself when the other tab tears its query down', () => {
+  const tabA = makeTab(client, makeChannel());
+  const tabB = makeTab(client, makeChannel());
+  const operation = client.createRequestOperation(
+    'query',
+    createRequest(query)
+  );
+
+  tabA.dispatch(operation);
+  tabB.dispatch(operation);
+  expect(tabB.forwarded).toEqual([]);
+
+  const teardown = client.createRequestOperation('teardown', operation);
+  tabA.dispatch(teardown);
+
+  expect(tabB.forwarded).toEqual([operation]);
+});
+
+it('sends queries itself when the other tab fails with a network error', () => {
+  const tabA = makeTab(client, makeChannel());
+  const tabB = makeTab(client, makeChannel());
+  const operation = client.createRequestOperation(
+    'query',
+    createRequest(query)
+  );
+
+  tabA.dispatch(operation);
+  tabB.dispatch(operation);
+  tabA.respond(makeErrorResult(operation, new Error('Offline')));
+
+  expect(tabB.results).toEqual([]);
+  expect(tabB.forwarded).toEqual([operation]);
+});
+
+it('sends queries itself when no result arrives before the timeout', () => {
+  jest.useFakeTimers();
+
+  const tabA = makeTab(client, makeChannel());
+  const tabB = makeTab(client, makeChannel());
+  const operation = client.createRequestOperation(
+    'query',
+    createRequest(query)
+  );
+
+  tabA.dispatch(operation);
+  tabB.dispatch(operation);
+  expect(tabB.forwarded).toEqual([]);
+
+  jest.advanceTimersByTime(100);
+  expect(tabB.forwarded).toEqual([operation]);
+
+  jest.useRealTimers();
+});
+
+it('does not wait for queries of other tabs that have completed', () => {
+  const tabA = makeTab(client, makeChannel());
+  const tabB = makeTab(client, makeChannel());
+  const operation = client.createRequestOperation(
+    'query',
+    createRequest(query)
+  );
+
+  tabA.dispatch(operation);
+  tabA.respond({ operation, data: queryData });
+  tabB.dispatch(operation);
+
+  expect(tabB.forwarded).toEqual([operation]);
+});
+
+it('emits mutation results of other tabs', () => {
+  const tabA = makeTab(client, makeChannel());
+  const tabB = makeTab(client, makeChannel());
+  const operation = client.createRequestOperation(
+    'mutation',
+    createRequest(mutation)
+  );
+
+  tabA.dispatch(operation);
+  tabA.respond({ operation, data: mutationData });
+
+  expect(tabB.forwarded).toEqual([]);
+  expect(tabB.results).toHaveLength(1);
+  expect(tabB.results[0].operation.operationName).toBe('mutation');
+  expect(tabB.results[0].operation.key).toBe(operation.key);
+  expect(tabB.results[0].data).toEqual(mutationData);
+});
+
+it('invalidates cached queries when another tab sends a mutation', () => {
+  const channelA = makeChannel();
+  const channelB = makeChannel();
+  const tabA = makeTab(client, channelA);
+
+  const forwarded: Operation[] = [];
+  const network = makeSubject<OperationResult>();
+  const reexecuteOperation = jest
+    .spyOn(client, 'reexecuteOperation')
+    .mockImplementation(() => undefined);
+
+  const exchange = composeExchanges([
+    cacheExchange,
+    broadcastExchange({ channel: channelB }),
+  ]);
+
+  const ops = makeSubject<Operation>();
+  pipe(
+    exchange({
+      client,
+      dispatchDebug: jest.fn(),
+      forward: ops$ => {
+        pipe(
+          ops$,
+          subscribe(operation => {
+            forwarded.push(operation);
+          })
+        );
+        return network.source;
+      },
+    })(ops.source),
+    subscribe(() => {
+      /* noop */
+    })
+  );
+
+  const queryOperation = client.createRequestOperation(
+    'query',
+    createRequest(query)
+  );
+  ops.next(queryOperation);
+  network.next({ operation: forwarded[0], data: queryData });
+
+  const mutationOperation = client.createRequestOperation(
+    'mutation',
+    createRequest(mutation)
+  );
+  tabA.dispatch(mutationOperation);
+  tabA.respond({ operation: mutationOperation, data: mutationData });
+
+  expect(reexecuteOperation).toHaveBeenCalledTimes(1);
+  expect(reexecuteOperation.mock.calls[0][0].key).toBe(queryOperation.key);
+  expect(reexecuteOperation.mock.calls[0][0].context.requestPolicy).toBe(
+    'network-only'
+  );
+});
+
+it('stops listening to a passed channel without closing it when the results are unsubscribed', () => {
+  const channel = makeChannel();
+  const removeEventListener = jest.spyOn(channel, 'removeEventListener');
+  const tab = makeTab(client, channel);
+
+  tab.subscription.unsubscribe();
+  expect(removeEventListener).toHaveBeenCalledTimes(1);
+  expect(channel.close).not.toHaveBeenCalled();
+});
+
+it('closes its own channel when the results are unsubscribed', () => {
+  const channel = makeChannel();
+  const BroadcastChannel = jest.fn(() => channel);
+  (global as any).BroadcastChannel = BroadcastChannel;
+
+  const subscription = pipe(
+    broadcastExchange({ channelName: 'test' })({
+      forward: () => never,
+      client,
+      dispatchDebug: jest.fn(),
+    })(never),
+    subscribe(() => undefined)
+  );
+
+  subscription.unsubscribe();
+  delete (global as any).BroadcastChannel;
+
+  expect(BroadcastChannel).toHaveBeenCalledWith('test');
+  expect(channel.close).toHaveBeenCalledTimes(1);
+});
+
+it('forwards all operations when no channel is available', () => {
+  const tab = makeTab(client, undefined as any);
+  const operation = client.createRequestOperation(
+    'query',
+    createRequest(query)
+  );
+
+  tab.dispatch(operation);
+  tab.respond({ operation, data: queryData });
+
+  expect(tab.forwarded).toEqual([operation]);
+  expect(tab.results).toEqual([{ operation, data: queryData }]);
+});
@@ -0,0 +1,246 @@
+import { print } from 'graphql';
+import { filter, makeSubject, merge, onEnd, pipe, share, tap } from 'wonka';
+
+import {
+  Exchange,
+  Operation,
+  OperationResult,
+  createRequest,
+  makeResult,
+} from '@urql/core';
+
+/** The subset of the `BroadcastChannel` API that the exchange communicates over. */
+export interface BroadcastChannelLike {
+  postMessage(message: BroadcastMessage): void;
+  addEventListener(
+    type: 'message',
+    listener: (event: { data: BroadcastMessage }) => void
+  ): void;
+  removeEventListener(
+    type: 'message',
+    listener: (event: { data: BroadcastMessage }) => void
+  ): void;
+  close(): void;
+}
+
+export interface BroadcastExchangeOptions {
+  /** The name of the `BroadcastChannel` that is shared by all tabs. Defaults to `'urql'`. */
+  channelName?: string;
+  /** A channel that is used instead of a `BroadcastChannel`, e.g. in tests or in Node. */
+  channel?: BroadcastChannelLike;
+  /** The time in milliseconds that a query waits for another tab's result before it's sent anyway. Defaults to `5000`. */
+  timeout?: number;
+}
+
+/** A message that is sent between tabs over the channel. */
+export type BroadcastMessage =
+  | { type: 'request'; key: number; url: string }
+  | { type: 'abort'; key: number; url: string }
+  | {
+      type: 'result';
+      key: number;
+      url: string;
+      data: any;
+      errors?: any[];
+      extensions?: Record<string, any>;
+    }
+  | {
+      type: 'mutation';
+      key: number;
+      url: string;
+      query: string;
+      variables?: object;
+      data: any;
+      extensions?: Record<string, any>;
+    };
+
+interface WaitingEntry {
+  operation: Operation;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+const makeChannel = (name: string): BroadcastChannelLike | null =>
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(name) : null;
+
+// Results can't be structurally cloned with their CombinedError, so only
+// the raw GraphQL errors are shared
+const toGraphQLErrors = (result: OperationResult) =>
+  result.error && result.error.graphQLErrors.length
+    ? result.error.graphQLErrors.map(error => ({
+        message: error.message,
+        path: error.path,
+        extensions: error.extensions,
+      }))
+    : undefined;
+
+export const broadcastExchange = (
+  options?: BroadcastExchangeOptions
+): Exchange => ({ forward, client }) => {
+  if (!options) options = {};
+
+  // Channels that are passed in are owned by the caller and are never closed
+  const ownsChannel = !options.channel;
+  const channel = options.channel || makeChannel(options.channelName || 'urql');
+  // Without a channel, e.g. during server-side rendering, there's nothing to share
+  if (!channel) return ops$ => forward(ops$);
+
+  const timeout = options.timeout !== undefined ? options.timeout : 5000;
+
+  // Queries that this tab has sent and that other tabs may be waiting for
+  const localInFlight: Map<number, Operation> = new Map();
+  // Queries that other tabs have announced, keyed to their URL
+  const remoteInFlight: Map<number, string> = new Map();
+  // Queries of this tab that wait for another tab's result
+  const waiting: Map<number, WaitingEntry> = new Map();
+
+  const { source: sharedResults$, next: nextResult } = makeSubject<
+    OperationResult
+  >();
+  const { source: resumedOps$, next: resumeOperation } = makeSubject<
+    Operation
+  >();
+
+  const stopWaiting = (key: number): Operation | undefined => {
+    const entry = waiting.get(key);
+    if (entry) {
+      clearTimeout(entry.timeoutId);
+      waiting.delete(key);
+      return entry.operation;
+    }
+  };
+
+  const onMessage = ({ data: message }: { data: BroadcastMessage }) => {
+    if (!message || typeof message !== 'object') return;
+
+    if (message.type === 'request') {
+      remoteInFlight.set(message.key, message.url);
+    } else if (message.type === 'abort') {
+      remoteInFlight.delete(message.key);
+      // The other tab won't deliver a result, so this tab sends its query itself
+      const operation = stopWaiting(message.key);
+      if (operation) resumeOperation(operation);
+    } else if (message.type === 'result') {
+      remoteInFlight.delete(message.key);
+      const entry = waiting.get(message.key);
+      if (entry && entry.operation.context.url === message.url) {
+        stopWaiting(message.key);
+        nextResult(
+          makeResult(entry.operation, {
+            data: message.data,
+            errors: message.errors,
+            extensions: message.extensions,
+          })
+        );
+      }
+    } else if (message.type === 'mutation' && message.url === client.url) {
+      // The mutation result is emitted as if this tab had sent the mutation,
+      // so that caches above this exchange update or invalidate their data
+      const operation = client.createRequestOperation(
+        'mutation',
+        {
+          ...createRequest(message.query, message.variables),
+          key: message.key,
+        },
+        { url: message.url }
+      );
+      nextResult(
+        makeResult(operation, {
+          data: message.data,
+          extensions: message.extensions,
+        })
+      );
+    }
+  };
+
+  channel.addEventListener('message', onMessage);
+
+  const isRemoteInFlight = (operation: Operation) =>
+    operation.operationName === 'query' &&
+    remoteInFlight.get(operation.key) === operation.context.url;
+
+  const announce = (operation: Operation) => {
+    const { key, operationName, context } = operation;
+    if (operationName === 'query') {
+      localInFlight.set(key, operation);
+      channel.postMessage({ type: 'request', key, url: context.url });
+    } else if (operationName === 'teardown') {
+      stopWaiting(key);
+      if (localInFlight.has(key)) {
+        localInFlight.delete(key);
+        channel.postMessage({ type: 'abort', key, url: context.url });
+      }
+    }
+  };
+
+  const broadcastResult = (result: OperationResult) => {
+    const { operation, data, error, extensions } = result;
+    const { key, operationName, context } = operation;
+
+    if (operationName === 'query' && localInFlight.has(key)) {
+      // Incremental results are only shared once they're complete
+      if (result.hasNext) return;
+      localInFlight.delete(key);
+      // Other tabs retry on their own when this tab's request has failed
+      channel.postMessage(
+        error && error.networkError
+          ? { type: 'abort', key, url: context.url }
+          : {
+              type: 'result',
+              key,
+              url: context.url,
+              data,
+              errors: toGraphQLErrors(result),
+              extensions,
+            }
+      );
+    } else if (operationName === 'mutation' && data && !result.hasNext) {
+      channel.postMessage({
+        type: 'mutation',
+        key,
+        url: context.url,
+        query: print(operation.query),
+        variables: operation.variables,
+        data,
+        extensions,
+      });
+    }
+  };
+
+  return ops$ => {
+    const sharedOps$ = share(ops$);
+
+    const forwardedOps$ = pipe(
+      sharedOps$,
+      filter(operation => {
+        if (!isRemoteInFlight(operation)) return true;
+
+        // Identical queries that another tab is already sending wait for its result
+        stopWaiting(operation.key);
+        const timeoutId = setTimeout(() => {
+          waiting.delete(operation.key);
+          remoteInFlight.delete(operation.key);
+          resumeOperation(operation);
+        }, timeout);
+        waiting.set(operation.key, { operation, timeoutId });
+        return false;
+      })
+    );
+
+    const results$ = pipe(
+      merge([forwardedOps$, resumedOps$]),
+      tap(announce),
+      forward,
+      tap(broadcastResult)
+    );
+
+    return pipe(
+      merge([results$, sharedResults$]),
+      onEnd(() => {
+        waiting.forEach(entry => clearTimeout(entry.timeoutId));
+        waiting.clear();
+        channel.removeEventListener('message', onMessage);
+        if (ownsChannel) channel.close();
+      })
+    );
+  };
+};
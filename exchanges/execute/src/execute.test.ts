@@ -14,7 +14,7 @@ import {
 } from 'wonka';
 import { mocked } from 'ts-jest/utils';
 import { queryOperation } from '@urql/core/test-utils';
-import { makeErrorResult } from '@urql/core';
+import { makeErrorResult, TimeoutError } from '@urql/core';
 import { Client } from '@urql/core/client';
 import { OperationResult } from '@urql/core/types';
 
@@ -178,6 +178,36 @@ describe('on thrown error', () => {
   });
 });
 
+describe('on timeout', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mocked(execute).mockReturnValue(new Promise(() => undefined));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('returns a TimeoutError result', async () => {
+    const operation = {
+      ...queryOperation,
+      context: { ...queryOperation.context, timeout: 1000 },
+    };
+
+    const response = pipe(
+      fromValue(operation),
+      executeExchange({ schema })(exchangeArgs),
+      take(1),
+      toPromise
+    );
+
+    jest.advanceTimersByTime(1000);
+
+    const { error } = await response;
+    expect(error!.networkError).toBeInstanceOf(TimeoutError);
+  });
+});
+
 describe('on unsupported operation', () => {
   const operation = {
     ...queryOperation,
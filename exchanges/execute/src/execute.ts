@@ -18,7 +18,13 @@ import {
   execute,
 } from 'graphql';
 
-import { Exchange, makeResult, makeErrorResult, Operation } from '@urql/core';
+import {
+  Exchange,
+  makeResult,
+  makeErrorResult,
+  withTimeout,
+  Operation,
+} from '@urql/core';
 
 export const getOperationName = (query: DocumentNode): string | undefined => {
   for (let i = 0, l = query.definitions.length; i < l; i++) {
@@ -91,6 +97,7 @@ export const executeExchange = ({
           onEnd(() => {
             ended = true;
           }),
+          withTimeout(operation),
           takeUntil(teardown$)
         );
       })
@@ -1,7 +1,14 @@
 import gql from 'graphql-tag';
+import { print } from 'graphql';
 import { getSelectionSet } from './node';
 
-import { getMainOperation, shouldInclude } from './traversal';
+import {
+  getMainOperation,
+  getFragments,
+  shouldInclude,
+  isClientOnly,
+  stripClientSelections,
+} from './traversal';
 
 describe('getMainOperation', () => {
   it('retrieves the first operation', () => {
@@ -81,3 +88,100 @@ describe('shouldInclude', () => {
     expect(shouldInclude(field, {})).toBe(true);
   });
 });
+
+describe('isClientOnly', () => {
+  it('returns whether all selections are client-only', () => {
+    const clientDoc = gql`
+      {
+        __typename
+        isLoggedIn @_client
+        ...Settings
+      }
+
+      fragment Settings on Query {
+        theme @_client
+      }
+    `;
+
+    const mixedDoc = gql`
+      {
+        isLoggedIn @_client
+        todos {
+          id
+        }
+      }
+    `;
+
+    expect(
+      isClientOnly(
+        getSelectionSet(getMainOperation(clientDoc)),
+        getFragments(clientDoc)
+      )
+    ).toBe(true);
+    expect(
+      isClientOnly(
+        getSelectionSet(getMainOperation(mixedDoc)),
+        getFragments(mixedDoc)
+      )
+    ).toBe(false);
+  });
+});
+
+describe('stripClientSelections', () => {
+  it('removes client-only selections and what only they use', () => {
+    const doc = gql`
+      query($id: ID!, $filter: String) {
+        todo(id: $id) {
+          id
+          isSelected @_client
+          ... on Todo @_client {
+            isEditing
+          }
+          ...LocalTodo
+        }
+        visibleTodos(filter: $filter) @_client {
+          id
+        }
+        viewer {
+          ...LocalViewer @_client
+        }
+      }
+
+      fragment LocalTodo on Todo {
+        isExpanded @_client
+      }
+
+      fragment LocalViewer on User {
+        theme
+      }
+    `;
+
+    expect(print(stripClientSelections(doc))).toBe(
+      print(gql`
+        query($id: ID!) {
+          todo(id: $id) {
+            id
+            ...LocalTodo
+          }
+          viewer {
+            __typename
+          }
+        }
+
+        fragment LocalTodo on Todo {
+          __typename
+        }
+      `)
+    );
+  });
+
+  it('preserves the hashed key of the document', () => {
+    const doc = gql`
+      {
+        field @_client
+      }
+    ` as any;
+    doc.__key = 123;
+    expect((stripClientSelections(doc) as any).__key).toBe(123);
+  });
+});
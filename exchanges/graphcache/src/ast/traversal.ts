@@ -4,11 +4,19 @@ import {
   DocumentNode,
   FragmentDefinitionNode,
   OperationDefinitionNode,
+  FieldNode,
   valueFromASTUntyped,
+  visit,
   Kind,
 } from 'graphql';
 
-import { getName } from './node';
+import {
+  getName,
+  getSelectionSet,
+  isFieldNode,
+  isInlineFragment,
+  SelectionSet,
+} from './node';
 
 import { invariant } from '../helpers/help';
 import { Fragments, Variables } from '../types';
@@ -68,3 +76,148 @@ export const shouldInclude = (
 
   return true;
 };
+
+/** Returns whether a fragment's selection is deferred using `@defer` and may be delivered later */
+export const isDeferred = (node: SelectionNode, vars: Variables): boolean => {
+  const { directives } = node;
+  if (!directives) return false;
+
+  for (let i = 0, l = directives.length; i < l; i++) {
+    const directive = directives[i];
+    if (getName(directive) === 'defer') {
+      // `@defer(if: false)` disables deferral, just like omitting the directive
+      const args = directive.arguments || [];
+      for (let j = 0, k = args.length; j < k; j++) {
+        if (getName(args[j]) === 'if') {
+          return !!valueFromASTUntyped(args[j].value, vars);
+        }
+      }
+
+      return true;
+    }
+  }
+
+  return false;
+};
+
+/** Returns whether a selection is a client-only selection that is marked with `@_client` */
+export const isClient = (node: SelectionNode): boolean =>
+  !!node.directives &&
+  node.directives.some(directive => getName(directive) === '_client');
+
+/** Returns whether a selection set only consists of client-only selections */
+export const isClientOnly = (
+  select: SelectionSet,
+  fragments: Fragments
+): boolean =>
+  select.every(node => {
+    if (isClient(node)) {
+      return true;
+    } else if (isFieldNode(node)) {
+      return getName(node) === '__typename';
+    }
+
+    const fragmentNode = isInlineFragment(node)
+      ? node
+      : fragments[getName(node)];
+    return (
+      !!fragmentNode && isClientOnly(getSelectionSet(fragmentNode), fragments)
+    );
+  });
+
+const typenameField: FieldNode = {
+  kind: Kind.FIELD,
+  name: { kind: Kind.NAME, value: '__typename' },
+};
+
+/** Removes all client-only selections that are marked with `@_client` from a document */
+export const stripClientSelections = (doc: DocumentNode): DocumentNode => {
+  const stripClient = (node: SelectionNode) =>
+    isClient(node) ? null : undefined;
+  const spreads = new Set<string>();
+  const variables = new Set<string>();
+
+  const result = visit(doc, {
+    // Variable definitions aren't usages and are skipped
+    VariableDefinition: () => false,
+    Variable(node) {
+      variables.add(getName(node));
+    },
+    Field: stripClient,
+    InlineFragment: stripClient,
+    FragmentSpread(node) {
+      if (isClient(node)) return null;
+      spreads.add(getName(node));
+      return undefined;
+    },
+    SelectionSet: {
+      // Selection sets that only contained client-only selections are kept valid
+      leave: node =>
+        node.selections.length
+          ? undefined
+          : { ...node, selections: [typenameField] },
+    },
+  });
+
+  // Fragments and variables that are only used by client-only selections are removed as well
+  const definitions: DefinitionNode[] = [];
+  for (let i = 0, l = result.definitions.length; i < l; i++) {
+    const node = result.definitions[i];
+    if (isFragmentNode(node)) {
+      if (spreads.has(getName(node))) definitions.push(node);
+    } else if (
+      node.kind === Kind.OPERATION_DEFINITION &&
+      node.variableDefinitions
+    ) {
+      definitions.push({
+        ...node,
+        variableDefinitions: node.variableDefinitions.filter(def =>
+          variables.has(getName(def.variable))
+        ),
+      });
+    } else {
+      definitions.push(node);
+    }
+  }
+
+  return {
+    ...result,
+    definitions,
+    __key: (doc as any).__key,
+  } as DocumentNode;
+};
+
+export interface ListUpdate {
+  kind: 'append' | 'prepend' | 'remove';
+  /** The target list link as `entityKey.fieldKey`, e.g. `Query.todos` */
+  to: string;
+}
+
+/** Returns the list updates that a field's `@_append`, `@_prepend`, and `@_remove` directives request */
+export const getListUpdates = (
+  node: SelectionNode,
+  vars: Variables
+): ListUpdate[] => {
+  const updates: ListUpdate[] = [];
+  const { directives } = node;
+  if (!directives) return updates;
+
+  for (let i = 0, l = directives.length; i < l; i++) {
+    const directive = directives[i];
+    const name = getName(directive);
+    if (name === '_append' || name === '_prepend' || name === '_remove') {
+      const args = directive.arguments || [];
+      for (let j = 0, k = args.length; j < k; j++) {
+        if (getName(args[j]) === 'to') {
+          const to = valueFromASTUntyped(args[j].value, vars);
+          updates.push({
+            kind: name.slice(1) as ListUpdate['kind'],
+            to: typeof to === 'string' ? to : '',
+          });
+        }
+      }
+    }
+  }
+
+  return updates;
+};
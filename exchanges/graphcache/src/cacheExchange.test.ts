@@ -1,9 +1,11 @@
 import gql from 'graphql-tag';
+import { print } from 'graphql';
 import {
   createClient,
   ExchangeIO,
   Operation,
   OperationResult,
+  makeErrorResult,
 } from '@urql/core';
 import {
   Source,
@@ -122,6 +124,226 @@ describe('data dependencies', () => {
     expect(result.mock.calls[0][0].data).toBe(null);
   });
 
+  it('respects cache-and-network-if-stale operations', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const client = createClient({ url: 'http://0.0.0.0' });
+    const op = client.createRequestOperation(
+      'query',
+      { key: 1, query: queryOne },
+      { requestPolicy: 'cache-and-network-if-stale', maxAge: 500 }
+    );
+
+    const reexec = jest
+      .spyOn(client, 'reexecuteOperation')
+      .mockImplementation(() => undefined);
+
+    const response = jest.fn(
+      (forwardOp: Operation): OperationResult => {
+        return { operation: forwardOp, data: queryOneData };
+      }
+    );
+
+    const { source: ops$, next } = makeSubject<Operation>();
+    const result = jest.fn();
+    const forward: ExchangeIO = ops$ => pipe(ops$, map(response));
+
+    pipe(
+      cacheExchange({})({ forward, client, dispatchDebug })(ops$),
+      tap(result),
+      publish
+    );
+
+    next(op);
+    expect(response).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1500);
+    next(op);
+    expect(result).toHaveBeenCalledTimes(2);
+    expect(result.mock.calls[1][0].stale).toBe(undefined);
+    expect(reexec).not.toHaveBeenCalled();
+
+    now.mockReturnValue(1501);
+    next(op);
+    expect(result).toHaveBeenCalledTimes(3);
+    expect(result.mock.calls[2][0].stale).toBe(true);
+    expect(reexec).toHaveBeenCalledTimes(1);
+    expect(reexec.mock.calls[0][0]).toHaveProperty(
+      'context.requestPolicy',
+      'network-only'
+    );
+
+    now.mockRestore();
+  });
+
+  it('does not treat results as stale with cache-and-network-if-stale but without a maxAge', () => {
+    const client = createClient({ url: 'http://0.0.0.0' });
+    const op = client.createRequestOperation(
+      'query',
+      { key: 1, query: queryOne },
+      { requestPolicy: 'cache-and-network-if-stale' }
+    );
+
+    const reexec = jest
+      .spyOn(client, 'reexecuteOperation')
+      .mockImplementation(() => undefined);
+
+    const response = jest.fn(
+      (forwardOp: Operation): OperationResult => {
+        return { operation: forwardOp, data: queryOneData };
+      }
+    );
+
+    const { source: ops$, next } = makeSubject<Operation>();
+    const result = jest.fn();
+    const forward: ExchangeIO = ops$ =>
+      pipe(
+        ops$,
+        filter(op => op.operationName !== 'teardown'),
+        map(response)
+      );
+
+    pipe(
+      cacheExchange({})({ forward, client, dispatchDebug })(ops$),
+      tap(result),
+      publish
+    );
+
+    next(op);
+    expect(response).toHaveBeenCalledTimes(1);
+
+    next(client.createRequestOperation('teardown', op));
+    next(op);
+    expect(result).toHaveBeenCalledTimes(2);
+    expect(result.mock.calls[1][0].stale).toBe(undefined);
+    expect(reexec).not.toHaveBeenCalled();
+  });
+
+  it('treats results as stale after their operation has been torn down', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const client = createClient({ url: 'http://0.0.0.0' });
+    const op = client.createRequestOperation(
+      'query',
+      { key: 1, query: queryOne },
+      { requestPolicy: 'cache-and-network-if-stale', maxAge: 500 }
+    );
+
+    const reexec = jest
+      .spyOn(client, 'reexecuteOperation')
+      .mockImplementation(() => undefined);
+
+    const response = jest.fn(
+      (forwardOp: Operation): OperationResult => {
+        return { operation: forwardOp, data: queryOneData };
+      }
+    );
+
+    const { source: ops$, next } = makeSubject<Operation>();
+    const result = jest.fn();
+    const forward: ExchangeIO = ops$ =>
+      pipe(
+        ops$,
+        filter(op => op.operationName !== 'teardown'),
+        map(response)
+      );
+
+    pipe(
+      cacheExchange({})({ forward, client, dispatchDebug })(ops$),
+      tap(result),
+      publish
+    );
+
+    next(op);
+    expect(response).toHaveBeenCalledTimes(1);
+
+    next(client.createRequestOperation('teardown', op));
+    next(op);
+    expect(result).toHaveBeenCalledTimes(2);
+    expect(result.mock.calls[1][0].stale).toBe(true);
+    expect(reexec).toHaveBeenCalledTimes(1);
+
+    now.mockRestore();
+  });
+
+  it('falls back to cached data on network errors with network-first', () => {
+    const client = createClient({ url: 'http://0.0.0.0' });
+    const op = client.createRequestOperation('query', {
+      key: 1,
+      query: queryOne,
+    });
+
+    const networkFirstOp = client.createRequestOperation(
+      'query',
+      { key: 1, query: queryOne },
+      { requestPolicy: 'network-first' }
+    );
+
+    const error = new Error('Offline');
+    const response = jest.fn(
+      (forwardOp: Operation): OperationResult =>
+        forwardOp.context.requestPolicy === 'network-first'
+          ? makeErrorResult(forwardOp, error)
+          : { operation: forwardOp, data: queryOneData }
+    );
+
+    const { source: ops$, next } = makeSubject<Operation>();
+    const result = jest.fn();
+    const forward: ExchangeIO = ops$ => pipe(ops$, map(response));
+
+    pipe(
+      cacheExchange({})({ forward, client, dispatchDebug })(ops$),
+      tap(result),
+      publish
+    );
+
+    next(op);
+    next(networkFirstOp);
+
+    expect(response).toHaveBeenCalledTimes(2);
+    expect(response.mock.calls[1][0]).toHaveProperty(
+      'context.requestPolicy',
+      'network-first'
+    );
+    expect(result).toHaveBeenCalledTimes(2);
+    expect(result.mock.calls[1][0].data).toEqual(queryOneData);
+    expect(result.mock.calls[1][0].stale).toBe(true);
+    expect(result.mock.calls[1][0].error.networkError).toBe(error);
+    expect(result.mock.calls[1][0]).toHaveProperty(
+      'operation.context.meta.cacheOutcome',
+      'hit'
+    );
+  });
+
+  it('returns network errors with network-first when nothing is cached', () => {
+    const client = createClient({ url: 'http://0.0.0.0' });
+    const op = client.createRequestOperation(
+      'query',
+      { key: 1, query: queryOne },
+      { requestPolicy: 'network-first' }
+    );
+
+    const response = jest.fn(
+      (forwardOp: Operation): OperationResult =>
+        makeErrorResult(forwardOp, new Error('Offline'))
+    );
+
+    const { source: ops$, next } = makeSubject<Operation>();
+    const result = jest.fn();
+    const forward: ExchangeIO = ops$ => pipe(ops$, map(response));
+
+    pipe(
+      cacheExchange({})({ forward, client, dispatchDebug })(ops$),
+      tap(result),
+      publish
+    );
+
+    next(op);
+
+    expect(result).toHaveBeenCalledTimes(1);
+    expect(result.mock.calls[0][0].data).toBe(undefined);
+    expect(result.mock.calls[0][0].stale).toBe(undefined);
+    expect(result.mock.calls[0][0].error.networkError.message).toBe('Offline');
+  });
+
   it('updates related queries when their data changes', () => {
     const queryMultiple = gql`
       {
@@ -1469,6 +1691,124 @@ describe('schema awareness', () => {
       'operation.context.meta.cacheOutcome',
       'partial'
     );
+    expect(
+      result.mock.calls[1][0].operation.context.meta.missingFields
+    ).toEqual(['todos.complete', 'todos.author']);
+  });
+
+  it('only returns partial results when their missing fields are allowed', () => {
+    const client = createClient({ url: 'http://0.0.0.0' });
+    const { source: ops$, next } = makeSubject<Operation>();
+    const reexec = jest
+      .spyOn(client, 'reexecuteOperation')
+      .mockImplementation(() => undefined);
+
+    const initialQuery = gql`
+      query {
+        todos {
+          id
+          text
+          __typename
+        }
+      }
+    `;
+
+    const query = gql`
+      query {
+        todos {
+          id
+          text
+          complete
+          author {
+            id
+            __typename
+          }
+          __typename
+        }
+      }
+    `;
+
+    const initialOperation = client.createRequestOperation('query', {
+      key: 1,
+      query: initialQuery,
+    });
+
+    const response = jest.fn(
+      (forwardOp: Operation): OperationResult => ({
+        operation: forwardOp,
+        data: {
+          __typename: 'Query',
+          todos: [{ __typename: 'Todo', id: '1', text: 'Learn' }],
+        },
+      })
+    );
+
+    const result = jest.fn();
+    const forward: ExchangeIO = ops$ =>
+      pipe(
+        ops$,
+        filter(op => op.key === 1),
+        map(response)
+      );
+
+    pipe(
+      cacheExchange({
+        // eslint-disable-next-line
+        schema: require('./test-utils/simple_schema.json'),
+      })({ forward, client, dispatchDebug })(ops$),
+      tap(result),
+      publish
+    );
+
+    next(initialOperation);
+    expect(response).toHaveBeenCalledTimes(1);
+    expect(result).toHaveBeenCalledTimes(1);
+
+    next(
+      client.createRequestOperation(
+        'query',
+        { key: 2, query },
+        {
+          requestPolicy: 'cache-first-if-allowed',
+          allowedMissingFields: ['todos.complete'],
+        }
+      )
+    );
+
+    // The missing `todos.author` field isn't allowed, so no partial result is returned
+    expect(result).toHaveBeenCalledTimes(1);
+    expect(reexec).toHaveBeenCalledTimes(0);
+
+    next(
+      client.createRequestOperation(
+        'query',
+        { key: 3, query },
+        {
+          requestPolicy: 'cache-first-if-allowed',
+          allowedMissingFields: ['todos.complete', 'todos.author'],
+        }
+      )
+    );
+
+    expect(result).toHaveBeenCalledTimes(2);
+    expect(result.mock.calls[1][0].stale).toBe(true);
+    expect(result.mock.calls[1][0].data).toEqual({
+      __typename: 'Query',
+      todos: [
+        {
+          __typename: 'Todo',
+          id: '1',
+          text: 'Learn',
+          complete: null,
+          author: null,
+        },
+      ],
+    });
+    expect(reexec).toHaveBeenCalledTimes(1);
+    expect(reexec.mock.calls[0][0]).toHaveProperty(
+      'context.requestPolicy',
+      'network-only'
+    );
   });
 });
 
@@ -2043,3 +2383,315 @@ describe('commutativity', () => {
     expect(data).toHaveProperty('node.name', 'subscription b');
   });
 });
+
+describe('client-only fields', () => {
+  it('strips client-only fields and resolves them locally', () => {
+    const todosQuery = gql`
+      query($selected: ID) {
+        todos {
+          id
+          text
+          isSelected(id: $selected) @_client
+        }
+        filter @_client
+      }
+    `;
+
+    const client = createClient({ url: 'http://0.0.0.0' });
+    const { source: ops$, next } = makeSubject<Operation>();
+
+    const opQuery = client.createRequestOperation('query', {
+      key: 1,
+      query: todosQuery,
+      variables: { selected: '1' },
+    });
+
+    const response = jest.fn(
+      (forwardOp: Operation): OperationResult => ({
+        operation: forwardOp,
+        data: {
+          __typename: 'Query',
+          todos: [{ __typename: 'Todo', id: '1', text: 'Learn' }],
+        },
+      })
+    );
+
+    const result = jest.fn();
+    const forward: ExchangeIO = ops$ => pipe(ops$, map(response));
+
+    const resolvers = {
+      Todo: {
+        isSelected: (parent, args) => parent.id === args.id,
+      },
+    };
+
+    pipe(
+      cacheExchange({ resolvers })({ forward, client, dispatchDebug })(ops$),
+      tap(result),
+      publish
+    );
+
+    next(opQuery);
+
+    expect(response).toHaveBeenCalledTimes(1);
+    const forwardOp = response.mock.calls[0][0];
+    expect(print(forwardOp.query)).not.toMatch(/isSelected|filter|_client/);
+    expect(forwardOp.variables).toEqual({});
+
+    expect(result).toHaveBeenCalledTimes(1);
+    expect(result.mock.calls[0][0].data).toEqual({
+      __typename: 'Query',
+      todos: [{ __typename: 'Todo', id: '1', text: 'Learn', isSelected: true }],
+      filter: null,
+    });
+  });
+
+  it('never forwards queries that only select client-only fields', () => {
+    const filterQuery = gql`
+      {
+        filter @_client
+      }
+    `;
+
+    const client = createClient({ url: 'http://0.0.0.0' });
+    const { source: ops$, next } = makeSubject<Operation>();
+
+    const opQuery = client.createRequestOperation(
+      'query',
+      { key: 1, query: filterQuery },
+      { requestPolicy: 'network-only' }
+    );
+
+    const response = jest.fn();
+    const result = jest.fn();
+    const forward: ExchangeIO = ops$ => pipe(ops$, map(response));
+
+    const resolvers = {
+      Query: {
+        filter: () => 'done',
+      },
+    };
+
+    pipe(
+      cacheExchange({ resolvers })({ forward, client, dispatchDebug })(ops$),
+      tap(result),
+      publish
+    );
+
+    next(opQuery);
+
+    expect(response).not.toHaveBeenCalled();
+    expect(result).toHaveBeenCalledTimes(1);
+    expect(result.mock.calls[0][0].data).toEqual({
+      __typename: 'Query',
+      filter: 'done',
+    });
+  });
+});
+
+describe('list directives', () => {
+  it('strips list directives and applies them to the mutation result', () => {
+    jest.useFakeTimers();
+
+    const todosQuery = gql`
+      {
+        todos {
+          id
+          text
+        }
+      }
+    `;
+
+    const mutation = gql`
+      mutation {
+        addTodo @_append(to: "Query.todos") {
+          id
+          text
+        }
+      }
+    `;
+
+    const client = createClient({ url: 'http://0.0.0.0' });
+    const { source: ops$, next } = makeSubject<Operation>();
+
+    const reexec = jest
+      .spyOn(client, 'reexecuteOperation')
+      .mockImplementation(next);
+
+    const opQuery = client.createRequestOperation('query', {
+      key: 1,
+      query: todosQuery,
+    });
+
+    const opMutation = client.createRequestOperation('mutation', {
+      key: 2,
+      query: mutation,
+    });
+
+    const response = jest.fn(
+      (forwardOp: Operation): OperationResult => {
+        if (forwardOp.key === 1) {
+          return {
+            operation: forwardOp,
+            data: {
+              __typename: 'Query',
+              todos: [{ __typename: 'Todo', id: '1', text: 'Learn' }],
+            },
+          };
+        }
+
+        return {
+          operation: forwardOp,
+          data: {
+            __typename: 'Mutation',
+            addTodo: { __typename: 'Todo', id: '2', text: 'Teach' },
+          },
+        };
+      }
+    );
+
+    const result = jest.fn();
+    const forward: ExchangeIO = ops$ => pipe(ops$, delay(1), map(response));
+
+    pipe(
+      cacheExchange()({ forward, client, dispatchDebug })(ops$),
+      tap(result),
+      publish
+    );
+
+    next(opQuery);
+    jest.runAllTimers();
+    next(opMutation);
+    jest.runAllTimers();
+
+    expect(response).toHaveBeenCalledTimes(2);
+    expect(print(response.mock.calls[1][0].query)).not.toMatch('@_append');
+
+    expect(reexec).toHaveBeenCalledTimes(1);
+    expect(reexec.mock.calls[0][0].key).toBe(1);
+    // The updated query is reexecuted before the mutation result is emitted
+    expect(result).toHaveBeenCalledTimes(3);
+    expect(result.mock.calls[1][0].data).toMatchObject({
+      todos: [
+        { id: '1', text: 'Learn' },
+        { id: '2', text: 'Teach' },
+      ],
+    });
+  });
+});
+
+describe('cache size limits', () => {
+  it('reexecutes queries whose entities have been evicted', () => {
+    const queryTwo = gql`
+      {
+        otherAuthor {
+          id
+          name
+        }
+      }
+    `;
+
+    const queryTwoData = {
+      __typename: 'Query',
+      otherAuthor: {
+        __typename: 'Author',
+        id: '456',
+        name: 'Other Author',
+      },
+    };
+
+    const client = createClient({ url: 'http://0.0.0.0' });
+    const { source: ops$, next } = makeSubject<Operation>();
+
+    const reexec = jest
+      .spyOn(client, 'reexecuteOperation')
+      .mockImplementation(() => undefined);
+
+    const opOne = client.createRequestOperation('query', {
+      key: 1,
+      query: queryOne,
+    });
+
+    const opTwo = client.createRequestOperation('query', {
+      key: 2,
+      query: queryTwo,
+    });
+
+    const response = jest.fn(
+      (forwardOp: Operation): OperationResult => {
+        if (forwardOp.key === 1) {
+          return { operation: opOne, data: queryOneData };
+        } else if (forwardOp.key === 2) {
+          return { operation: opTwo, data: queryTwoData };
+        }
+
+        return undefined as any;
+      }
+    );
+
+    const forward: ExchangeIO = ops$ => pipe(ops$, map(response));
+    const result = jest.fn();
+
+    pipe(
+      cacheExchange({ maxEntities: 1 })({ forward, client, dispatchDebug })(
+        ops$
+      ),
+      tap(result),
+      publish
+    );
+
+    next(opOne);
+    expect(result).toHaveBeenCalledTimes(1);
+    expect(reexec).not.toHaveBeenCalled();
+
+    next(opTwo);
+    expect(result).toHaveBeenCalledTimes(2);
+    expect(result.mock.calls[1][0].data).toEqual(queryTwoData);
+    expect(reexec).toHaveBeenCalledTimes(1);
+    expect(reexec).toHaveBeenCalledWith(opOne);
+  });
+});
+
+describe('snapshots', () => {
+  it('extracts data that another cache may be restored from', () => {
+    const client = createClient({ url: 'http://0.0.0.0' });
+    const op = client.createRequestOperation('query', {
+      key: 1,
+      query: queryOne,
+    });
+
+    const response = jest.fn(
+      (forwardOp: Operation): OperationResult => ({
+        operation: forwardOp,
+        data: queryOneData,
+      })
+    );
+
+    const forward: ExchangeIO = ops$ => pipe(ops$, map(response));
+    const serverCache = cacheExchange({});
+    const { source: ops$, next } = makeSubject<Operation>();
+    pipe(serverCache({ forward, client, dispatchDebug })(ops$), publish);
+
+    next(op);
+    expect(response).toHaveBeenCalledTimes(1);
+
+    const snapshot = JSON.parse(JSON.stringify(serverCache.extractData()));
+
+    const clientCache = cacheExchange({});
+    clientCache.restoreData(snapshot);
+    expect(clientCache.extractData()).toEqual(snapshot);
+
+    const result = jest.fn();
+    const { source: clientOps$, next: clientNext } = makeSubject<Operation>();
+    pipe(
+      clientCache({ forward, client, dispatchDebug })(clientOps$),
+      tap(result),
+      publish
+    );
+
+    clientNext(op);
+    expect(response).toHaveBeenCalledTimes(1);
+    expect(result).toHaveBeenCalledTimes(1);
+    expect(result.mock.calls[0][0].data).toEqual(queryOneData);
+  });
+});
@@ -27,7 +27,14 @@ import {
 
 import { query, write, writeOptimistic } from './operations';
 import { makeDict, isDictEmpty } from './helpers/dict';
-import { filterVariables, getMainOperation } from './ast';
+import {
+  filterVariables,
+  getMainOperation,
+  getFragments,
+  getSelectionSet,
+  isClientOnly,
+  stripClientSelections,
+} from './ast';
 import { Store, noopDataState, hydrateData, reserveLayer } from './store';
 
 import {
@@ -35,13 +42,16 @@ import {
   ResolverConfig,
   OptimisticMutationConfig,
   KeyingConfig,
+  TTLConfig,
   StorageAdapter,
+  StoreSnapshot,
   Dependencies,
 } from './types';
 
 type OperationResultWithMeta = OperationResult & {
   outcome: CacheOutcome;
   dependencies: Dependencies;
+  missingFields: string[];
 };
 
 type Operations = Set<number>;
@@ -50,17 +60,28 @@ type OptimisticDependencies = Map<number, Dependencies>;
 type DependentOperations = Record<string, number[]>;
 
 // Returns the given operation result with added cacheOutcome meta field
-const addCacheOutcome = (op: Operation, outcome: CacheOutcome): Operation => ({
+const addCacheOutcome = (
+  op: Operation,
+  outcome: CacheOutcome,
+  missingFields?: string[]
+): Operation => ({
   ...op,
   context: {
     ...op.context,
     meta: {
       ...op.context.meta,
       cacheOutcome: outcome,
+      ...(missingFields && missingFields.length ? { missingFields } : {}),
     },
   },
 });
 
+// Checks whether all missing fields of a partial result have been allowed by the operation
+const isPartialAllowed = (op: Operation, missingFields: string[]) => {
+  const allowed = op.context.allowedMissingFields || [];
+  return missingFields.every(path => allowed.indexOf(path) > -1);
+};
+
 // Copy an operation and change the requestPolicy to skip the cache
 const toRequestPolicy = (
   operation: Operation,
@@ -78,366 +99,506 @@ export interface CacheExchangeOpts {
   resolvers?: ResolverConfig;
   optimistic?: OptimisticMutationConfig;
   keys?: KeyingConfig;
+  ttl?: number | TTLConfig;
+  maxEntities?: number;
   schema?: IntrospectionQuery;
   storage?: StorageAdapter;
 }
 
-export const cacheExchange = (opts?: CacheExchangeOpts): Exchange => ({
-  forward,
-  client,
-  dispatchDebug,
-}) => {
-  const store = new Store(opts);
-
-  let hydration: void | Promise<void>;
-  if (opts && opts.storage) {
-    hydration = opts.storage.readData().then(entries => {
-      hydrateData(store.data, opts!.storage!, entries);
-    });
-  }
-
-  const optimisticKeysToDependencies: OptimisticDependencies = new Map();
-  const mutationResultBuffer: OperationResult[] = [];
-  const ops: OperationMap = new Map();
-  const blockedDependencies: Dependencies = makeDict();
-  const requestedRefetch: Operations = new Set();
-  const deps: DependentOperations = makeDict();
-
-  const isBlockedByOptimisticUpdate = (dependencies: Dependencies): boolean => {
-    for (const dep in dependencies) if (blockedDependencies[dep]) return true;
-    return false;
-  };
+export interface CacheExchange extends Exchange {
+  /** Extracts a snapshot of the cache's normalized data */
+  extractData(): StoreSnapshot;
+  /** Restores a snapshot of normalized data into the cache */
+  restoreData(snapshot: StoreSnapshot): void;
+}
 
-  const collectPendingOperations = (
-    pendingOperations: Operations,
-    dependencies: void | Dependencies
-  ) => {
-    if (dependencies) {
-      // Collect operations that will be updated due to cache changes
-      for (const dep in dependencies) {
-        const keys = deps[dep];
-        if (keys) {
-          deps[dep] = [];
-          for (let i = 0, l = keys.length; i < l; i++) {
-            pendingOperations.add(keys[i]);
-          }
-        }
-      }
+export const cacheExchange = (opts?: CacheExchangeOpts): CacheExchange => {
+  let currentStore: Store | null = null;
+  let restoredSnapshot: StoreSnapshot | null = null;
+
+  const cache: CacheExchange = ({ forward, client, dispatchDebug }) => {
+    const store = (currentStore = new Store(opts));
+    if (restoredSnapshot) store.restore(restoredSnapshot);
+
+    let hydration: void | Promise<void>;
+    if (opts && opts.storage) {
+      hydration = opts.storage.readData().then(entries => {
+        hydrateData(store.data, opts!.storage!, entries);
+      });
     }
-  };
 
-  const executePendingOperations = (
-    operation: Operation,
-    pendingOperations: Operations
-  ) => {
-    // Reexecute collected operations and delete them from the mapping
-    pendingOperations.forEach(key => {
-      if (key !== operation.key) {
-        const op = ops.get(key);
-        if (op) {
-          ops.delete(key);
-          let policy: RequestPolicy = 'cache-first';
-          if (requestedRefetch.has(key)) {
-            requestedRefetch.delete(key);
-            policy = 'cache-and-network';
+    const optimisticKeysToDependencies: OptimisticDependencies = new Map();
+    const mutationResultBuffer: OperationResult[] = [];
+    const ops: OperationMap = new Map();
+    const resultTimestamps: Map<number, number> = new Map();
+    const originalOperations: OperationMap = new Map();
+    const blockedDependencies: Dependencies = makeDict();
+    const requestedRefetch: Operations = new Set();
+    const deps: DependentOperations = makeDict();
+
+    const isBlockedByOptimisticUpdate = (
+      dependencies: Dependencies
+    ): boolean => {
+      for (const dep in dependencies) if (blockedDependencies[dep]) return true;
+      return false;
+    };
+
+    const collectPendingOperations = (
+      pendingOperations: Operations,
+      dependencies: void | Dependencies
+    ) => {
+      if (dependencies) {
+        // Collect operations that will be updated due to cache changes
+        for (const dep in dependencies) {
+          const keys = deps[dep];
+          if (keys) {
+            deps[dep] = [];
+            for (let i = 0, l = keys.length; i < l; i++) {
+              pendingOperations.add(keys[i]);
+            }
           }
-          client.reexecuteOperation(toRequestPolicy(op, policy));
         }
       }
-    });
-  };
+    };
 
-  // This registers queries with the data layer to ensure commutativity
-  const prepareForwardedOperation = (operation: Operation) => {
-    if (operation.operationName === 'query') {
-      // Pre-reserve the position of the result layer
-      reserveLayer(store.data, operation.key);
-    } else if (operation.operationName === 'teardown') {
-      // Delete reference to operation if any exists to release it
-      ops.delete(operation.key);
-      // Mark operation layer as done
-      noopDataState(store.data, operation.key);
-    } else if (
-      operation.operationName === 'mutation' &&
-      operation.context.requestPolicy !== 'network-only'
-    ) {
-      // This executes an optimistic update for mutations and registers it if necessary
-      const { dependencies } = writeOptimistic(store, operation, operation.key);
-      if (!isDictEmpty(dependencies)) {
-        // Update blocked optimistic dependencies
-        for (const dep in dependencies) {
-          blockedDependencies[dep] = true;
+    const executePendingOperations = (
+      operation: Operation,
+      pendingOperations: Operations
+    ) => {
+      // Reexecute collected operations and delete them from the mapping
+      pendingOperations.forEach(key => {
+        if (key !== operation.key) {
+          const op = ops.get(key);
+          if (op) {
+            ops.delete(key);
+            let policy: RequestPolicy =
+              op.context.requestPolicy === 'cache-first-if-allowed'
+                ? 'cache-first-if-allowed'
+                : 'cache-first';
+            if (requestedRefetch.has(key)) {
+              requestedRefetch.delete(key);
+              policy = 'cache-and-network';
+            }
+            client.reexecuteOperation(toRequestPolicy(op, policy));
+          }
         }
+      });
+    };
+
+    // This registers queries with the data layer to ensure commutativity
+    const prepareForwardedOperation = (operation: Operation) => {
+      if (operation.operationName === 'query') {
+        // Pre-reserve the position of the result layer
+        reserveLayer(store.data, operation.key);
+      } else if (operation.operationName === 'teardown') {
+        // Delete reference to operation if any exists to release it
+        ops.delete(operation.key);
+        originalOperations.delete(operation.key);
+        resultTimestamps.delete(operation.key);
+        // Mark operation layer as done
+        noopDataState(store.data, operation.key);
+      } else if (
+        operation.operationName === 'mutation' &&
+        operation.context.requestPolicy !== 'network-only'
+      ) {
+        // This executes an optimistic update for mutations and registers it if necessary
+        const { dependencies } = writeOptimistic(
+          store,
+          operation,
+          operation.key
+        );
+        if (!isDictEmpty(dependencies)) {
+          // Update blocked optimistic dependencies
+          for (const dep in dependencies) {
+            blockedDependencies[dep] = true;
+          }
 
-        // Store optimistic dependencies for update
-        optimisticKeysToDependencies.set(operation.key, dependencies);
+          // Store optimistic dependencies for update
+          optimisticKeysToDependencies.set(operation.key, dependencies);
 
-        // Update related queries
-        const pendingOperations: Operations = new Set();
-        collectPendingOperations(pendingOperations, dependencies);
-        executePendingOperations(operation, pendingOperations);
+          // Update related queries
+          const pendingOperations: Operations = new Set();
+          collectPendingOperations(pendingOperations, dependencies);
+          executePendingOperations(operation, pendingOperations);
+        }
       }
-    }
-
-    return {
-      ...operation,
-      variables: operation.variables
-        ? filterVariables(
-            getMainOperation(operation.query),
-            operation.variables
-          )
-        : operation.variables,
-      query: formatDocument(operation.query),
-    };
-  };
 
-  // This updates the known dependencies for the passed operation
-  const updateDependencies = (op: Operation, dependencies: Dependencies) => {
-    for (const dep in dependencies) {
-      (deps[dep] || (deps[dep] = [])).push(op.key);
-      ops.set(op.key, op);
-    }
-  };
+      if (operation.operationName !== 'teardown') {
+        // Results are written and read using the original operation, since its
+        // client-only fields and directives are stripped from the forwarded one
+        originalOperations.set(operation.key, operation);
+      }
 
-  // Retrieves a query result from cache and adds an `isComplete` hint
-  // This hint indicates whether the result is "complete" or not
-  const operationResultFromCache = (
-    operation: Operation
-  ): OperationResultWithMeta => {
-    const res = query(store, operation);
-    const cacheOutcome: CacheOutcome = res.data
-      ? !res.partial
-        ? 'hit'
-        : 'partial'
-      : 'miss';
-
-    updateDependencies(operation, res.dependencies);
-
-    return {
-      outcome: cacheOutcome,
-      operation,
-      data: res.data,
-      dependencies: res.dependencies,
+      const forwardedQuery = formatDocument(
+        stripClientSelections(operation.query)
+      );
+
+      return {
+        ...operation,
+        variables: operation.variables
+          ? filterVariables(
+              getMainOperation(forwardedQuery),
+              operation.variables
+            )
+          : operation.variables,
+        query: forwardedQuery,
+      };
     };
-  };
 
-  // Take any OperationResult and update the cache with it
-  const updateCacheWithResult = (
-    result: OperationResult,
-    pendingOperations: Operations
-  ): OperationResult => {
-    const { operation, error, extensions } = result;
-    const { key } = operation;
-
-    if (operation.operationName === 'mutation') {
-      // Collect previous dependencies that have been written for optimistic updates
-      const dependencies = optimisticKeysToDependencies.get(key);
-      collectPendingOperations(pendingOperations, dependencies);
-      optimisticKeysToDependencies.delete(key);
-    } else {
-      reserveLayer(store.data, operation.key);
-    }
+    // This updates the known dependencies for the passed operation
+    const updateDependencies = (op: Operation, dependencies: Dependencies) => {
+      for (const dep in dependencies) {
+        (deps[dep] || (deps[dep] = [])).push(op.key);
+        ops.set(op.key, op);
+      }
+    };
 
-    let queryDependencies: void | Dependencies;
-    if (result.data) {
-      // Write the result to cache and collect all dependencies that need to be
-      // updated
-      const writeDependencies = write(store, operation, result.data, key)
-        .dependencies;
-      collectPendingOperations(pendingOperations, writeDependencies);
+    // Cached results are stale once their last API result is older than the operation's maxAge, if one is set
+    const isResultStale = (operation: Operation) => {
+      const { maxAge } = operation.context;
+      if (maxAge === undefined) return false;
+      const timestamp = resultTimestamps.get(operation.key);
+      return timestamp === undefined || Date.now() - timestamp > maxAge;
+    };
 
-      const queryResult = query(store, operation, result.data);
-      result.data = queryResult.data;
-      if (operation.operationName === 'query') {
-        // Collect the query's dependencies for future pending operation updates
-        queryDependencies = queryResult.dependencies;
-        collectPendingOperations(pendingOperations, queryDependencies);
+    // Retrieves a query result from cache and adds an `isComplete` hint
+    // This hint indicates whether the result is "complete" or not
+    const operationResultFromCache = (
+      operation: Operation
+    ): OperationResultWithMeta => {
+      const res = query(store, operation);
+      let cacheOutcome: CacheOutcome = res.data
+        ? !res.partial
+          ? 'hit'
+          : 'partial'
+        : 'miss';
+
+      if (
+        cacheOutcome === 'partial' &&
+        operation.context.requestPolicy === 'cache-first-if-allowed' &&
+        !isPartialAllowed(operation, res.missingFields)
+      ) {
+        // Partial results are only shown when all missing fields have been allowed
+        cacheOutcome = 'miss';
       }
-    } else {
-      noopDataState(store.data, operation.key);
-    }
 
-    // Update this operation's dependencies if it's a query
-    if (queryDependencies) {
-      updateDependencies(result.operation, queryDependencies);
-    }
+      updateDependencies(operation, res.dependencies);
 
-    return { data: result.data, error, extensions, operation };
-  };
+      return {
+        outcome: cacheOutcome,
+        operation,
+        data: res.data,
+        dependencies: res.dependencies,
+        missingFields: res.missingFields,
+      };
+    };
 
-  return ops$ => {
-    const sharedOps$ = pipe(ops$, share);
-
-    // Buffer operations while waiting on hydration to finish
-    // If no hydration takes place we replace this stream with an empty one
-    const bufferedOps$ = hydration
-      ? pipe(
-          sharedOps$,
-          buffer(fromPromise(hydration)),
-          take(1),
-          mergeMap(fromArray)
-        )
-      : (empty as Source<Operation>);
+    // Take any OperationResult and update the cache with it
+    const updateCacheWithResult = (
+      result: OperationResult,
+      pendingOperations: Operations
+    ): OperationResult => {
+      const { operation, error, extensions, hasNext } = result;
+      const { key } = operation;
+
+      if (operation.operationName === 'mutation') {
+        // Collect previous dependencies that have been written for optimistic updates
+        const dependencies = optimisticKeysToDependencies.get(key);
+        collectPendingOperations(pendingOperations, dependencies);
+        optimisticKeysToDependencies.delete(key);
+      } else {
+        reserveLayer(store.data, operation.key);
+      }
 
-    const inputOps$ = pipe(concat([bufferedOps$, sharedOps$]), share);
+      const original = originalOperations.get(key);
+      if (operation.operationName === 'mutation' && !hasNext) {
+        originalOperations.delete(key);
+      }
 
-    // Filter by operations that are cacheable and attempt to query them from the cache
-    const cacheOps$ = pipe(
-      inputOps$,
-      filter(op => {
-        return (
-          op.operationName === 'query' &&
-          op.context.requestPolicy !== 'network-only'
+      const originalOperation: Operation = original
+        ? { ...operation, query: original.query, variables: original.variables }
+        : operation;
+
+      let queryDependencies: void | Dependencies;
+      let resultOperation = operation;
+      let stale: true | undefined;
+      if (result.data) {
+        // Write the result to cache and collect all dependencies that need to be
+        // updated
+        const writeDependencies = write(
+          store,
+          originalOperation,
+          result.data,
+          key
+        ).dependencies;
+        collectPendingOperations(pendingOperations, writeDependencies);
+
+        const queryResult = query(
+          store,
+          originalOperation,
+          result.data,
+          hasNext
         );
-      }),
-      map(operationResultFromCache),
-      share
-    );
-
-    const nonCacheOps$ = pipe(
-      inputOps$,
-      filter(op => {
-        return (
-          op.operationName !== 'query' ||
-          op.context.requestPolicy === 'network-only'
-        );
-      })
-    );
-
-    // Rebound operations that are incomplete, i.e. couldn't be queried just from the cache
-    const cacheMissOps$ = pipe(
-      cacheOps$,
-      filter(res => {
-        return (
-          res.outcome === 'miss' &&
-          res.operation.context.requestPolicy !== 'cache-only' &&
-          !isBlockedByOptimisticUpdate(res.dependencies)
-        );
-      }),
-      map(res => {
-        dispatchDebug({
-          type: 'cacheMiss',
-          message: 'The result could not be retrieved from the cache',
-          operation: res.operation,
-        });
-        return addCacheOutcome(res.operation, 'miss');
-      })
-    );
-
-    // Resolve OperationResults that the cache was able to assemble completely and trigger
-    // a network request if the current operation's policy is cache-and-network
-    const cacheResult$ = pipe(
-      cacheOps$,
-      filter(
-        res =>
-          res.outcome !== 'miss' ||
-          res.operation.context.requestPolicy === 'cache-only'
-      ),
-      map(
-        (res: OperationResultWithMeta): OperationResult => {
-          const { operation, outcome, dependencies } = res;
-          const result: OperationResult = {
-            operation: addCacheOutcome(operation, outcome),
-            data: res.data,
-            error: res.error,
-            extensions: res.extensions,
-          };
-
-          if (
-            operation.context.requestPolicy === 'cache-and-network' ||
-            (operation.context.requestPolicy === 'cache-first' &&
-              outcome === 'partial')
-          ) {
-            result.stale = true;
-            if (!isBlockedByOptimisticUpdate(dependencies)) {
-              client.reexecuteOperation(
-                toRequestPolicy(operation, 'network-only')
-              );
-            } else if (
-              operation.context.requestPolicy === 'cache-and-network'
-            ) {
-              requestedRefetch.add(operation.key);
-            }
+        result.data = queryResult.data;
+        if (operation.operationName === 'query') {
+          resultTimestamps.set(key, Date.now());
+          // Collect the query's dependencies for future pending operation updates
+          queryDependencies = queryResult.dependencies;
+          collectPendingOperations(pendingOperations, queryDependencies);
+        }
+      } else {
+        noopDataState(store.data, operation.key);
+
+        if (
+          operation.operationName === 'query' &&
+          operation.context.requestPolicy === 'network-first' &&
+          error &&
+          error.networkError
+        ) {
+          // Network errors of network-first queries fall back to cached data
+          const queryResult = query(store, originalOperation);
+          if (queryResult.data) {
+            result.data = queryResult.data;
+            queryDependencies = queryResult.dependencies;
+            stale = true;
+            resultOperation = addCacheOutcome(
+              operation,
+              queryResult.partial ? 'partial' : 'hit',
+              queryResult.missingFields
+            );
           }
+        }
+      }
+
+      // Update this operation's dependencies if it's a query
+      if (queryDependencies) {
+        updateDependencies(originalOperation, queryDependencies);
+      }
+
+      return {
+        data: result.data,
+        error,
+        extensions,
+        operation: resultOperation,
+        hasNext,
+        stale,
+        status: result.status,
+        headers: result.headers,
+      };
+    };
+
+    return ops$ => {
+      const sharedOps$ = pipe(ops$, share);
+
+      // Buffer operations while waiting on hydration to finish
+      // If no hydration takes place we replace this stream with an empty one
+      const bufferedOps$ = hydration
+        ? pipe(
+            sharedOps$,
+            buffer(fromPromise(hydration)),
+            take(1),
+            mergeMap(fromArray)
+          )
+        : (empty as Source<Operation>);
 
+      const inputOps$ = pipe(
+        concat([bufferedOps$, sharedOps$]),
+        map(op =>
+          // Queries that only select client-only fields are never sent to the API
+          op.operationName === 'query' &&
+          op.context.requestPolicy !== 'cache-only' &&
+          isClientOnly(
+            getSelectionSet(getMainOperation(op.query)),
+            getFragments(op.query)
+          )
+            ? toRequestPolicy(op, 'cache-only')
+            : op
+        ),
+        share
+      );
+
+      // Filter by operations that are cacheable and attempt to query them from the cache
+      const cacheOps$ = pipe(
+        inputOps$,
+        filter(op => {
+          return (
+            op.operationName === 'query' &&
+            op.context.requestPolicy !== 'network-only' &&
+            op.context.requestPolicy !== 'network-first'
+          );
+        }),
+        map(operationResultFromCache),
+        share
+      );
+
+      const nonCacheOps$ = pipe(
+        inputOps$,
+        filter(op => {
+          return (
+            op.operationName !== 'query' ||
+            op.context.requestPolicy === 'network-only' ||
+            op.context.requestPolicy === 'network-first'
+          );
+        })
+      );
+
+      // Rebound operations that are incomplete, i.e. couldn't be queried just from the cache
+      const cacheMissOps$ = pipe(
+        cacheOps$,
+        filter(res => {
+          return (
+            res.outcome === 'miss' &&
+            res.operation.context.requestPolicy !== 'cache-only' &&
+            !isBlockedByOptimisticUpdate(res.dependencies)
+          );
+        }),
+        map(res => {
           dispatchDebug({
-            type: 'cacheHit',
-            message: `A requested operation was found and returned from the cache.`,
+            type: 'cacheMiss',
+            message: 'The result could not be retrieved from the cache',
             operation: res.operation,
-            data: {
-              value: result,
-            },
           });
+          return addCacheOutcome(res.operation, 'miss');
+        })
+      );
+
+      // Resolve OperationResults that the cache was able to assemble completely and trigger
+      // a network request if the current operation's policy is cache-and-network
+      const cacheResult$ = pipe(
+        cacheOps$,
+        filter(
+          res =>
+            res.outcome !== 'miss' ||
+            res.operation.context.requestPolicy === 'cache-only'
+        ),
+        map(
+          (res: OperationResultWithMeta): OperationResult => {
+            const { operation, outcome, dependencies } = res;
+            const result: OperationResult = {
+              operation: addCacheOutcome(operation, outcome, res.missingFields),
+              data: res.data,
+              error: res.error,
+              extensions: res.extensions,
+            };
+
+            const { requestPolicy } = operation.context;
+            const shouldRevalidate =
+              requestPolicy === 'cache-and-network' ||
+              (requestPolicy === 'cache-and-network-if-stale' &&
+                isResultStale(operation));
+
+            if (
+              shouldRevalidate ||
+              ((requestPolicy === 'cache-first' ||
+                requestPolicy === 'cache-first-if-allowed' ||
+                requestPolicy === 'cache-and-network-if-stale') &&
+                outcome === 'partial')
+            ) {
+              result.stale = true;
+              if (!isBlockedByOptimisticUpdate(dependencies)) {
+                client.reexecuteOperation(
+                  toRequestPolicy(operation, 'network-only')
+                );
+              } else if (shouldRevalidate) {
+                requestedRefetch.add(operation.key);
+              }
+            }
 
-          return result;
-        }
-      )
-    );
-
-    // Forward operations that aren't cacheable and rebound operations
-    // Also update the cache with any network results
-    const result$ = pipe(
-      merge([nonCacheOps$, cacheMissOps$]),
-      map(prepareForwardedOperation),
-      forward,
-      share
-    );
-
-    // Results that can immediately be resolved
-    const nonOptimisticResults$ = pipe(
-      result$,
-      filter(result => !optimisticKeysToDependencies.has(result.operation.key)),
-      map(result => {
-        const pendingOperations: Operations = new Set();
-        // Update the cache with the incoming API result
-        const cacheResult = updateCacheWithResult(result, pendingOperations);
-        // Execute all dependent queries
-        executePendingOperations(result.operation, pendingOperations);
-        return cacheResult;
-      })
-    );
-
-    // Prevent mutations that were previously optimistic from being flushed
-    // immediately and instead clear them out slowly
-    const optimisticMutationCompletion$ = pipe(
-      result$,
-      filter(result => optimisticKeysToDependencies.has(result.operation.key)),
-      mergeMap(
-        (result: OperationResult): Source<OperationResult> => {
-          const length = mutationResultBuffer.push(result);
-          if (length < optimisticKeysToDependencies.size) {
-            return empty;
-          }
+            dispatchDebug({
+              type: 'cacheHit',
+              message: `A requested operation was found and returned from the cache.`,
+              operation: res.operation,
+              data: {
+                value: result,
+              },
+            });
 
-          for (let i = 0; i < mutationResultBuffer.length; i++) {
-            reserveLayer(store.data, mutationResultBuffer[i].operation.key);
+            return result;
           }
+        )
+      );
+
+      // Forward operations that aren't cacheable and rebound operations
+      // Also update the cache with any network results
+      const result$ = pipe(
+        merge([nonCacheOps$, cacheMissOps$]),
+        map(prepareForwardedOperation),
+        forward,
+        share
+      );
+
+      // Results that can immediately be resolved
+      const nonOptimisticResults$ = pipe(
+        result$,
+        filter(
+          result => !optimisticKeysToDependencies.has(result.operation.key)
+        ),
+        map(result => {
+          const pendingOperations: Operations = new Set();
+          // Update the cache with the incoming API result
+          const cacheResult = updateCacheWithResult(result, pendingOperations);
+          // Execute all dependent queries
+          executePendingOperations(result.operation, pendingOperations);
+          return cacheResult;
+        })
+      );
+
+      // Prevent mutations that were previously optimistic from being flushed
+      // immediately and instead clear them out slowly
+      const optimisticMutationCompletion$ = pipe(
+        result$,
+        filter(result =>
+          optimisticKeysToDependencies.has(result.operation.key)
+        ),
+        mergeMap(
+          (result: OperationResult): Source<OperationResult> => {
+            const length = mutationResultBuffer.push(result);
+            if (length < optimisticKeysToDependencies.size) {
+              return empty;
+            }
 
-          for (const dep in blockedDependencies) {
-            delete blockedDependencies[dep];
-          }
+            for (let i = 0; i < mutationResultBuffer.length; i++) {
+              reserveLayer(store.data, mutationResultBuffer[i].operation.key);
+            }
 
-          const results: OperationResult[] = [];
-          const pendingOperations: Operations = new Set();
+            for (const dep in blockedDependencies) {
+              delete blockedDependencies[dep];
+            }
 
-          let bufferedResult: OperationResult | void;
-          while ((bufferedResult = mutationResultBuffer.shift()))
-            results.push(
-              updateCacheWithResult(bufferedResult, pendingOperations)
-            );
+            const results: OperationResult[] = [];
+            const pendingOperations: Operations = new Set();
 
-          // Execute all dependent queries as a single batch
-          executePendingOperations(result.operation, pendingOperations);
+            let bufferedResult: OperationResult | void;
+            while ((bufferedResult = mutationResultBuffer.shift()))
+              results.push(
+                updateCacheWithResult(bufferedResult, pendingOperations)
+              );
 
-          return fromArray(results);
-        }
-      )
-    );
-
-    return merge([
-      nonOptimisticResults$,
-      optimisticMutationCompletion$,
-      cacheResult$,
-    ]);
+            // Execute all dependent queries as a single batch
+            executePendingOperations(result.operation, pendingOperations);
+
+            return fromArray(results);
+          }
+        )
+      );
+
+      return merge([
+        nonOptimisticResults$,
+        optimisticMutationCompletion$,
+        cacheResult$,
+      ]);
+    };
+  };
+
+  cache.extractData = () =>
+    currentStore
+      ? currentStore.extract()
+      : restoredSnapshot || { records: {}, links: {} };
+
+  cache.restoreData = (snapshot: StoreSnapshot) => {
+    restoredSnapshot = snapshot;
+    if (currentStore) currentStore.restore(snapshot);
   };
+
+  return cache;
 };
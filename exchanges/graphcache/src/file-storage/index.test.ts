@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { makeFileStorage } from './index';
+
+describe('makeFileStorage', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'graphcache-'));
+    file = path.join(dir, 'cache.json');
+  });
+
+  afterEach(() => {
+    for (const name of fs.readdirSync(dir)) fs.unlinkSync(path.join(dir, name));
+    fs.rmdirSync(dir);
+  });
+
+  it('starts out empty when the file is missing', async () => {
+    const storage = makeFileStorage({ path: file });
+    expect(await storage.readData()).toEqual({});
+    expect(await storage.readMetadata!()).toBe(null);
+  });
+
+  it('writes entries and metadata to the file', async () => {
+    const storage = makeFileStorage({ path: file });
+    const metadata = [{ query: 'mutation { test }', variables: {} }];
+
+    storage.writeMetadata!(metadata);
+    await storage.writeData({ 'Query.a': '1', 'Query.b': '2' });
+    await storage.writeData({ 'Query.a': undefined });
+
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual({
+      entries: { 'Query.b': '2' },
+      metadata,
+    });
+    expect(fs.existsSync(`${file}.tmp`)).toBe(false);
+
+    const restored = makeFileStorage({ path: file });
+    expect(await restored.readData()).toEqual({ 'Query.b': '2' });
+    expect(await restored.readMetadata!()).toEqual(metadata);
+  });
+
+  it('treats a corrupted file like a missing one', async () => {
+    fs.writeFileSync(file, '{"entries":');
+    const storage = makeFileStorage({ path: file });
+    expect(await storage.readData()).toEqual({});
+
+    await storage.writeData({ 'Query.a': '1' });
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).entries).toEqual({
+      'Query.a': '1',
+    });
+  });
+
+  it('rejects and keeps the data when writing the file fails', async () => {
+    const missingDir = path.join(dir, 'missing');
+    const storage = makeFileStorage({ path: path.join(missingDir, 'a.json') });
+
+    await expect(storage.writeData({ 'Query.a': '1' })).rejects.toMatchObject({
+      code: 'ENOENT',
+    });
+
+    fs.mkdirSync(missingDir);
+    await storage.writeData({ 'Query.b': '2' });
+    expect(
+      JSON.parse(fs.readFileSync(path.join(missingDir, 'a.json'), 'utf8'))
+        .entries
+    ).toEqual({ 'Query.a': '1', 'Query.b': '2' });
+
+    fs.unlinkSync(path.join(missingDir, 'a.json'));
+    fs.rmdirSync(missingDir);
+  });
+
+  it('rejects and removes the temporary file when renaming fails', async () => {
+    // The file can't be replaced when a non-empty directory is in its place
+    fs.mkdirSync(file);
+    fs.writeFileSync(path.join(file, 'entry'), '');
+    const storage = makeFileStorage({ path: file });
+
+    await expect(storage.writeData({ 'Query.a': '1' })).rejects.toThrow();
+    expect(fs.existsSync(`${file}.tmp`)).toBe(false);
+
+    fs.unlinkSync(path.join(file, 'entry'));
+    fs.rmdirSync(file);
+  });
+
+  it('clears the file', async () => {
+    const storage = makeFileStorage({ path: file });
+    await storage.writeData({ 'Query.a': '1' });
+    await storage.clear();
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual({
+      entries: {},
+      metadata: null,
+    });
+  });
+
+  it('calls back on an injected online signal', () => {
+    let goOnline: () => void = () => undefined;
+    const cb = jest.fn();
+    const storage = makeFileStorage({
+      path: file,
+      onOnline: signal => {
+        goOnline = signal;
+      },
+    });
+
+    storage.onOnline!(cb);
+    goOnline();
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import { SerializedEntries, SerializedRequest, StorageAdapter } from '../types';
+import { onOnlineSignal, OnlineSignal } from '../helpers/online';
+
+export interface FileStorageOptions {
+  /** The path of the JSON file that the cache's data and metadata are persisted to */
+  path: string;
+  /** Subscribes to a signal for when the device comes back online; defaults to the browser's "online" event */
+  onOnline?: OnlineSignal;
+}
+
+export interface FileStorage extends StorageAdapter {
+  clear(): Promise<any>;
+}
+
+interface FileContents {
+  entries: SerializedEntries;
+  metadata: null | SerializedRequest[];
+}
+
+export const makeFileStorage = (opts: FileStorageOptions): FileStorage => {
+  const { path } = opts;
+  const tempPath = `${path}.tmp`;
+
+  let contents$: Promise<FileContents> | void;
+  let write$: Promise<void> = Promise.resolve();
+  let isWriteScheduled = false;
+
+  const readFile = (): Promise<FileContents> =>
+    contents$ ||
+    (contents$ = new Promise(resolve => {
+      fs.readFile(path, 'utf8', (error, json) => {
+        let contents: null | Partial<FileContents> = null;
+        try {
+          if (!error) contents = JSON.parse(json);
+        } catch (_error) {
+          // A corrupted file is treated like a missing one
+        }
+
+        resolve({
+          entries: Object.assign(
+            Object.create(null),
+            contents && contents.entries
+          ),
+          metadata: (contents && contents.metadata) || null,
+        });
+      });
+    }));
+
+  const writeContents = (contents: FileContents): Promise<void> => {
+    const json = JSON.stringify(contents);
+    return new Promise((resolve, reject) => {
+      // A failed write removes the temporary file and rejects with its error
+      const fail = (error: Error) => fs.unlink(tempPath, () => reject(error));
+      // The file is written to a temporary path first and then renamed, so
+      // that a crash can never leave it partially written
+      fs.writeFile(tempPath, json, 'utf8', error => {
+        if (error) {
+          fail(error);
+        } else {
+          fs.rename(tempPath, path, error => {
+            if (error) {
+              fail(error);
+            } else {
+              resolve();
+            }
+          });
+        }
+      });
+    });
+  };
+
+  const write = () => {
+    isWriteScheduled = false;
+    return readFile().then(writeContents);
+  };
+
+  // Writes are serialized and any writes that are scheduled while another
+  // is pending are combined into one, even when the previous write has failed
+  const scheduleWrite = (): Promise<void> => {
+    if (!isWriteScheduled) {
+      isWriteScheduled = true;
+      write$ = write$.then(write, write);
+    }
+
+    return write$;
+  };
+
+  return {
+    clear() {
+      contents$ = Promise.resolve({
+        entries: Object.create(null),
+        metadata: null,
+      });
+      return scheduleWrite();
+    },
+
+    readMetadata(): Promise<null | SerializedRequest[]> {
+      return readFile().then(contents => contents.metadata);
+    },
+
+    writeMetadata(json: SerializedRequest[]) {
+      readFile()
+        .then(contents => {
+          contents.metadata = json;
+          return scheduleWrite();
+        })
+        .then(undefined, () => {
+          // The metadata is kept in memory and is written again with the next write
+        });
+    },
+
+    writeData(delta: SerializedEntries): Promise<void> {
+      return readFile().then(contents => {
+        for (const key in delta) {
+          const value = delta[key];
+          if (value === undefined) {
+            delete contents.entries[key];
+          } else {
+            contents.entries[key] = value;
+          }
+        }
+
+        return scheduleWrite();
+      });
+    },
+
+    readData(): Promise<SerializedEntries> {
+      return readFile().then(contents => Object.assign({}, contents.entries));
+    },
+
+    onOnline: onOnlineSignal(opts.onOnline),
+  };
+};
@@ -29,7 +29,11 @@ export type ErrorCode =
   | 22
   | 23
   | 24
-  | 25;
+  | 25
+  | 26
+  | 27
+  | 28
+  | 29;
 
 type DebugNode = ExecutableDefinitionNode | InlineFragmentNode;
 
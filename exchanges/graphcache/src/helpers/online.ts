@@ -0,0 +1,17 @@
+export type OnlineSignal = (cb: () => void) => any;
+
+/** Calls back when the device comes back online using either the passed signal or the browser's "online" event */
+export const onOnlineSignal = (signal: void | OnlineSignal): OnlineSignal => (
+  cb: () => void
+) => {
+  if (signal) {
+    signal(cb);
+  } else if (
+    typeof window !== 'undefined' &&
+    typeof window.addEventListener === 'function'
+  ) {
+    window.addEventListener('online', () => {
+      cb();
+    });
+  }
+};
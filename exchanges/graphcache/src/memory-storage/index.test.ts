@@ -0,0 +1,94 @@
+import { createClient, CombinedError, ExchangeIO, Operation } from '@urql/core';
+import gql from 'graphql-tag';
+import { pipe, map, makeSubject, publish } from 'wonka';
+
+import { offlineExchange } from '../offlineExchange';
+import { makeMemoryStorage } from './index';
+
+describe('makeMemoryStorage', () => {
+  it('persists entries and removes deleted ones', async () => {
+    const storage = makeMemoryStorage();
+    expect(await storage.readData()).toEqual({});
+
+    await storage.writeData({ 'Query.a': '1', 'Query.b': '2' });
+    await storage.writeData({ 'Query.a': undefined, 'Query.c': '3' });
+    expect(await storage.readData()).toEqual({
+      'Query.b': '2',
+      'Query.c': '3',
+    });
+
+    await storage.clear();
+    expect(await storage.readData()).toEqual({});
+  });
+
+  it('persists metadata', async () => {
+    const storage = makeMemoryStorage();
+    expect(await storage.readMetadata!()).toBe(null);
+
+    const metadata = [{ query: 'mutation { test }', variables: {} }];
+    storage.writeMetadata!(metadata);
+    expect(await storage.readMetadata!()).toEqual(metadata);
+  });
+
+  it('replays queued mutations on an injected online signal', async () => {
+    let goOnline: () => void = () => undefined;
+    const storage = makeMemoryStorage({
+      onOnline: cb => {
+        goOnline = cb;
+      },
+    });
+
+    const mutation = gql`
+      mutation {
+        updateAuthor {
+          id
+          name
+        }
+      }
+    `;
+
+    const client = createClient({ url: 'http://0.0.0.0' });
+    jest
+      .spyOn(client, 'reexecuteOperation')
+      .mockImplementation(() => undefined);
+    const dispatchOperationSpy = jest
+      .spyOn(client, 'dispatchOperation')
+      .mockImplementation(() => undefined);
+
+    const forward: ExchangeIO = ops$ =>
+      pipe(
+        ops$,
+        map(operation => ({
+          operation,
+          error: new CombinedError({
+            networkError: new Error('failed to fetch'),
+          }),
+        }))
+      );
+
+    const exchange = offlineExchange({
+      storage,
+      optimistic: {
+        updateAuthor: () => ({ __typename: 'Author', id: '1', name: 'URQL' }),
+      },
+    });
+
+    const { source: ops$, next } = makeSubject<Operation>();
+    pipe(
+      exchange({ forward, client, dispatchDebug: jest.fn() })(ops$),
+      publish
+    );
+
+    // Operations are delayed until the cache has been rehydrated
+    await new Promise(resolve => setTimeout(resolve));
+
+    next(
+      client.createRequestOperation('mutation', { key: 1, query: mutation })
+    );
+    expect(await storage.readMetadata!()).toHaveLength(1);
+    expect(dispatchOperationSpy).not.toHaveBeenCalled();
+
+    goOnline();
+    expect(dispatchOperationSpy).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,55 @@
+import { SerializedEntries, SerializedRequest, StorageAdapter } from '../types';
+import { onOnlineSignal, OnlineSignal } from '../helpers/online';
+
+export interface MemoryStorageOptions {
+  /** Subscribes to a signal for when the device comes back online; defaults to the browser's "online" event */
+  onOnline?: OnlineSignal;
+}
+
+export interface MemoryStorage extends StorageAdapter {
+  clear(): Promise<any>;
+}
+
+export const makeMemoryStorage = (
+  opts?: MemoryStorageOptions
+): MemoryStorage => {
+  if (!opts) opts = {};
+
+  const entries: SerializedEntries = Object.create(null);
+  let metadata: null | SerializedRequest[] = null;
+
+  return {
+    clear() {
+      for (const key in entries) delete entries[key];
+      metadata = null;
+      return Promise.resolve();
+    },
+
+    readMetadata(): Promise<null | SerializedRequest[]> {
+      return Promise.resolve(metadata);
+    },
+
+    writeMetadata(json: SerializedRequest[]) {
+      metadata = json;
+    },
+
+    writeData(delta: SerializedEntries): Promise<void> {
+      for (const key in delta) {
+        const value = delta[key];
+        if (value === undefined) {
+          delete entries[key];
+        } else {
+          entries[key] = value;
+        }
+      }
+
+      return Promise.resolve();
+    },
+
+    readData(): Promise<SerializedEntries> {
+      return Promise.resolve(Object.assign({}, entries));
+    },
+
+    onOnline: onOnlineSignal(opts.onOnline),
+  };
+};
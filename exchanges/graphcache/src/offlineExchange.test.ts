@@ -3,10 +3,13 @@ import {
   ExchangeIO,
   Operation,
   OperationResult,
+  CombinedError,
+  createRequest,
   formatDocument,
 } from '@urql/core';
 
 import gql from 'graphql-tag';
+import { print } from 'graphql';
 import { pipe, map, makeSubject, tap, publish } from 'wonka';
 import { offlineExchange } from './offlineExchange';
 
@@ -168,7 +171,9 @@ describe('offline', () => {
     expect(result.mock.calls[0][0].data).toEqual(queryOneData);
 
     next(mutationOp);
-    expect(result).toBeCalledTimes(1);
+    expect(result).toBeCalledTimes(2);
+    expect(result.mock.calls[1][0]).toHaveProperty('queuedOffline', true);
+    expect(result.mock.calls[1][0].operation.key).toBe(mutationOp.key);
     expect(storage.writeMetadata).toBeCalledTimes(1);
     expect(storage.writeMetadata).toHaveBeenCalledWith([
       {
@@ -185,8 +190,8 @@ describe('offline', () => {
     ]);
 
     next(queryOp);
-    expect(result).toBeCalledTimes(2);
-    expect(result.mock.calls[1][0].data).toEqual({
+    expect(result).toBeCalledTimes(3);
+    expect(result.mock.calls[2][0].data).toEqual({
       __typename: 'Query',
       authors: [{ id: '123', name: 'URQL', __typename: 'Author' }],
     });
@@ -269,3 +274,319 @@ describe('offline', () => {
     );
   });
 });
+
+describe('queue', () => {
+  const mutationTwo = gql`
+    mutation($name: String) {
+      updateAuthor(name: $name) {
+        id
+        name
+      }
+    }
+  `;
+
+  const storage = {
+    onOnline: jest.fn(),
+    writeData: jest.fn(),
+    writeMetadata: jest.fn(),
+    readData: jest.fn(),
+    readMetadata: jest.fn(),
+  };
+
+  const optimistic = {
+    updateAuthor: vars => ({
+      id: '123',
+      name: vars.name || 'URQL',
+      __typename: 'Author',
+    }),
+  };
+
+  const offlineError = () =>
+    new CombinedError({ networkError: new Error('failed to fetch') });
+
+  beforeEach(() => {
+    storage.readData.mockReturnValue({ then: () => undefined });
+    storage.readMetadata.mockReturnValue({ then: () => undefined });
+  });
+
+  it('exposes and removes queued mutations', () => {
+    const client = createClient({ url: 'http://0.0.0.0' });
+    jest
+      .spyOn(client, 'reexecuteOperation')
+      .mockImplementation(() => undefined);
+
+    const queryOp = client.createRequestOperation('query', {
+      key: 1,
+      query: queryOne,
+    });
+
+    const mutationOp = client.createRequestOperation('mutation', {
+      key: 2,
+      query: mutationOne,
+      variables: {},
+    });
+
+    const response = jest.fn(
+      (forwardOp: Operation): OperationResult =>
+        forwardOp.key === queryOp.key
+          ? { operation: forwardOp, data: queryOneData }
+          : { operation: forwardOp, error: offlineError() }
+    );
+
+    const { source: ops$, next } = makeSubject<Operation>();
+    const result = jest.fn();
+    const listener = jest.fn();
+    const forward: ExchangeIO = ops$ => pipe(ops$, map(response));
+
+    const exchange = offlineExchange({ storage, optimistic });
+    exchange.queue.subscribe(listener);
+
+    pipe(
+      exchange({ forward, client, dispatchDebug })(ops$),
+      tap(result),
+      publish
+    );
+
+    next(queryOp);
+    next(mutationOp);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const mutations = exchange.queue.list();
+    expect(mutations).toEqual([
+      {
+        id: expect.any(Number),
+        key: mutationOp.key,
+        query: formatDocument(mutationOne),
+        variables: {},
+      },
+    ]);
+    expect(listener).toHaveBeenCalledWith(mutations);
+
+    next(queryOp);
+    expect(result).toHaveBeenCalledTimes(3);
+    expect(result.mock.calls[2][0].data.authors[0].name).toBe('URQL');
+
+    exchange.queue.remove(mutations[0].id);
+    expect(exchange.queue.list()).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(storage.writeMetadata).toHaveBeenLastCalledWith([]);
+
+    next(queryOp);
+    expect(result.mock.calls[result.mock.calls.length - 1][0].data).toEqual(
+      queryOneData
+    );
+  });
+
+  it('replays queued mutations in order', async () => {
+    const client = createClient({ url: 'http://0.0.0.0' });
+    jest
+      .spyOn(client, 'reexecuteOperation')
+      .mockImplementation(() => undefined);
+
+    let online = false;
+    const response = jest.fn(
+      (forwardOp: Operation): OperationResult =>
+        online
+          ? {
+              operation: forwardOp,
+              data: {
+                __typename: 'Mutation',
+                updateAuthor: optimistic.updateAuthor(forwardOp.variables),
+              },
+            }
+          : { operation: forwardOp, error: offlineError() }
+    );
+
+    const { source: ops$, next } = makeSubject<Operation>();
+    const result = jest.fn();
+    const forward: ExchangeIO = ops$ => pipe(ops$, map(response));
+    const dispatchOperationSpy = jest
+      .spyOn(client, 'dispatchOperation')
+      .mockImplementation(op => next(op as Operation));
+
+    const exchange = offlineExchange({ storage, optimistic });
+    pipe(
+      exchange({ forward, client, dispatchDebug })(ops$),
+      tap(result),
+      publish
+    );
+
+    next(
+      client.createRequestOperation(
+        'mutation',
+        createRequest(mutationTwo, { name: 'First' })
+      )
+    );
+    next(
+      client.createRequestOperation(
+        'mutation',
+        createRequest(mutationTwo, { name: 'Second' })
+      )
+    );
+
+    expect(exchange.queue.list().map(m => m.variables)).toEqual([
+      { name: 'First' },
+      { name: 'Second' },
+    ]);
+
+    // Replaying while offline keeps the mutations queued
+    exchange.queue.retry();
+    expect(dispatchOperationSpy).toHaveBeenCalledTimes(1);
+    expect(exchange.queue.list()).toHaveLength(2);
+
+    online = true;
+    exchange.queue.retry();
+    expect(dispatchOperationSpy).toHaveBeenCalledTimes(2);
+    expect((dispatchOperationSpy.mock.calls[1][0] as any).variables).toEqual({
+      name: 'First',
+    });
+    expect(exchange.queue.list().map(m => m.variables)).toEqual([
+      { name: 'Second' },
+    ]);
+
+    await Promise.resolve();
+    expect(dispatchOperationSpy).toHaveBeenCalledTimes(3);
+    expect((dispatchOperationSpy.mock.calls[2][0] as any).variables).toEqual({
+      name: 'Second',
+    });
+    expect(exchange.queue.list()).toEqual([]);
+  });
+
+  it('calls onConflict and onReplayError for failed replays', async () => {
+    const client = createClient({ url: 'http://0.0.0.0' });
+    jest
+      .spyOn(client, 'reexecuteOperation')
+      .mockImplementation(() => undefined);
+
+    let online = false;
+    const response = jest.fn(
+      (forwardOp: Operation): OperationResult =>
+        online
+          ? {
+              operation: forwardOp,
+              error: new CombinedError({ graphQLErrors: ['Conflict'] }),
+            }
+          : { operation: forwardOp, error: offlineError() }
+    );
+
+    const { source: ops$, next } = makeSubject<Operation>();
+    const forward: ExchangeIO = ops$ => pipe(ops$, map(response));
+    const dispatchOperationSpy = jest
+      .spyOn(client, 'dispatchOperation')
+      .mockImplementation(op => next(op as Operation));
+
+    const onConflict = jest.fn((_error, mutation) =>
+      mutation.variables.name === 'Stale' ? { name: 'Resolved' } : undefined
+    );
+    const onReplayError = jest.fn();
+
+    const exchange = offlineExchange({
+      storage,
+      optimistic,
+      onConflict: { updateAuthor: onConflict },
+      onReplayError: { updateAuthor: onReplayError },
+    });
+
+    pipe(exchange({ forward, client, dispatchDebug })(ops$), publish);
+
+    next(
+      client.createRequestOperation(
+        'mutation',
+        createRequest(mutationTwo, { name: 'Stale' })
+      )
+    );
+
+    const { id } = exchange.queue.list()[0];
+
+    online = true;
+    exchange.queue.retry();
+
+    expect(onConflict).toHaveBeenCalledTimes(1);
+    expect(onConflict.mock.calls[0][0].graphQLErrors[0].message).toBe(
+      'Conflict'
+    );
+    expect(onConflict.mock.calls[0][1]).toMatchObject({
+      id,
+      variables: { name: 'Stale' },
+    });
+    expect(onReplayError).not.toHaveBeenCalled();
+    expect(exchange.queue.list()).toMatchObject([
+      { id, variables: { name: 'Resolved' } },
+    ]);
+
+    await Promise.resolve();
+    expect(dispatchOperationSpy).toHaveBeenCalledTimes(2);
+    expect((dispatchOperationSpy.mock.calls[1][0] as any).variables).toEqual({
+      name: 'Resolved',
+    });
+
+    expect(onConflict).toHaveBeenCalledTimes(2);
+    expect(onReplayError).toHaveBeenCalledTimes(1);
+    expect(onReplayError.mock.calls[0][1]).toMatchObject({
+      id,
+      variables: { name: 'Resolved' },
+    });
+    expect(exchange.queue.list()).toEqual([]);
+  });
+
+  it('restores the queue once and keeps the state of clients apart when reused', () => {
+    storage.onOnline.mockClear();
+    storage.readMetadata.mockClear();
+    storage.readMetadata.mockReturnValue({
+      then: cb => cb([{ query: print(mutationOne), variables: {} }]),
+    });
+
+    const exchange = offlineExchange({ storage, optimistic });
+
+    const setup = () => {
+      const client = createClient({ url: 'http://0.0.0.0' });
+      jest
+        .spyOn(client, 'reexecuteOperation')
+        .mockImplementation(() => undefined);
+      const { source: ops$, next } = makeSubject<Operation>();
+      const dispatchOperation = jest
+        .spyOn(client, 'dispatchOperation')
+        .mockImplementation(() => undefined);
+      const forward: ExchangeIO = ops$ =>
+        pipe(
+          ops$,
+          map(
+            (forwardOp: Operation): OperationResult => ({
+              operation: forwardOp,
+              error: offlineError(),
+            })
+          )
+        );
+
+      const result = jest.fn();
+      pipe(
+        exchange({ forward, client, dispatchDebug })(ops$),
+        tap(result),
+        publish
+      );
+
+      return { client, next, result, dispatchOperation };
+    };
+
+    const first = setup();
+    expect(exchange.queue.list()).toHaveLength(1);
+    expect(first.dispatchOperation).toHaveBeenCalledTimes(1);
+
+    const second = setup();
+    expect(storage.readMetadata).toHaveBeenCalledTimes(1);
+    expect(storage.onOnline).toHaveBeenCalledTimes(1);
+    expect(exchange.queue.list()).toHaveLength(1);
+
+    second.next(
+      second.client.createRequestOperation(
+        'mutation',
+        createRequest(mutationTwo, { name: 'Second' })
+      )
+    );
+
+    expect(exchange.queue.list()).toHaveLength(2);
+    expect(second.result).toHaveBeenCalledTimes(1);
+    expect(second.result.mock.calls[0][0].queuedOffline).toBe(true);
+    expect(first.result).not.toHaveBeenCalled();
+  });
+});
@@ -1,12 +1,14 @@
-import { pipe, filter } from 'wonka';
+import { Subject, pipe, merge, filter, makeSubject } from 'wonka';
 import { print, SelectionNode } from 'graphql';
 
 import {
+  Client,
   Operation,
+  OperationResult,
   GraphQLRequest,
-  Exchange,
   CombinedError,
   createRequest,
+  makeErrorResult,
 } from '@urql/core';
 
 import {
@@ -20,17 +22,26 @@ import {
 } from './ast';
 
 import { makeDict } from './helpers/dict';
-import { OptimisticMutationConfig, Variables } from './types';
-import { cacheExchange, CacheExchangeOpts } from './cacheExchange';
+import {
+  OptimisticMutationConfig,
+  ConflictConfig,
+  ReplayErrorConfig,
+  OfflineQueue,
+  QueuedMutation,
+  Variables,
+} from './types';
+import {
+  cacheExchange,
+  CacheExchange,
+  CacheExchangeOpts,
+} from './cacheExchange';
 
-/** Determines whether a given query contains an optimistic mutation field */
-const isOptimisticMutation = (
-  config: OptimisticMutationConfig,
-  operation: Operation
-) => {
+/** Collects the names of all root fields that a given mutation selects */
+const getMutationFields = (operation: Operation): string[] => {
   const vars: Variables = operation.variables || makeDict();
   const fragments = getFragments(operation.query);
   const selections = [...getSelectionSet(getMainOperation(operation.query))];
+  const fieldNames: string[] = [];
 
   let field: void | SelectionNode;
   while ((field = selections.pop())) {
@@ -41,11 +52,22 @@ const isOptimisticMutation = (
         ? fragments[getName(field)]
         : field;
       if (fragmentNode) selections.push(...getSelectionSet(fragmentNode));
-    } else if (config[getName(field)]) {
-      return true;
+    } else {
+      fieldNames.push(getName(field));
     }
   }
 
+  return fieldNames;
+};
+
+/** Determines whether a given query contains an optimistic mutation field */
+const isOptimisticMutation = (
+  config: OptimisticMutationConfig,
+  operation: Operation
+) => {
+  const fieldNames = getMutationFields(operation);
+  for (let i = 0; i < fieldNames.length; i++)
+    if (config[fieldNames[i]]) return true;
   return false;
 };
 
@@ -58,84 +80,268 @@ const isOfflineError = (error: undefined | CombinedError) =>
       error.networkError.message
     ));
 
-export const offlineExchange = (opts: CacheExchangeOpts): Exchange => ({
-  forward: outerForward,
-  client,
-  dispatchDebug,
-}) => {
+export interface OfflineExchangeOpts extends CacheExchangeOpts {
+  /** Resolves replayed mutations that failed with GraphQL errors by returning new variables to replay them with */
+  onConflict?: ConflictConfig;
+  /** Is notified when a replayed mutation fails with an error and is dropped from the queue */
+  onReplayError?: ReplayErrorConfig;
+}
+
+export interface OfflineExchange extends CacheExchange {
+  /** The queue of mutations that have failed while offline */
+  queue: OfflineQueue;
+}
+
+// The state of the exchange for a single client
+interface Instance {
+  client: Client;
+  // Results that are sent to the cacheExchange to revert removed mutations
+  revertedResults: Subject<OperationResult>;
+}
+
+interface QueueEntry {
+  mutation: QueuedMutation;
+  // The last operation that has applied its optimistic update, if any
+  operation?: Operation;
+  // The instance that the mutation has been queued or replayed on, if any
+  instance?: Instance;
+}
+
+export const offlineExchange = (opts: OfflineExchangeOpts): OfflineExchange => {
   const { storage } = opts;
-  let forward = outerForward;
-
-  if (
-    storage &&
-    storage.onOnline &&
-    storage.readMetadata &&
-    storage.writeMetadata
-  ) {
-    const optimisticMutations = opts.optimistic || {};
-    const failedQueue: GraphQLRequest[] = [];
-
-    const updateMetadata = () => {
-      storage.writeMetadata!(
-        failedQueue.map(op => ({
-          query: print(op.query),
-          variables: op.variables,
+  const optimisticMutations = opts.optimistic || {};
+  const conflictResolvers = opts.onConflict || {};
+  const replayErrorHandlers = opts.onReplayError || {};
+  const cache = cacheExchange(opts);
+
+  const listeners: Array<(mutations: QueuedMutation[]) => void> = [];
+
+  // The queue is shared by all clients that use this exchange, since it's persisted
+  // to the same storage, while restored mutations are replayed on the latest client
+  let latestInstance: Instance | null = null;
+  let isRestored = false;
+  const entries: QueueEntry[] = [];
+  let replaying: QueueEntry | null = null;
+  let currentId = 0;
+
+  const makeEntry = (
+    request: GraphQLRequest,
+    id = ++currentId,
+    instance?: Instance
+  ): QueueEntry => ({
+    mutation: {
+      id,
+      key: request.key,
+      query: request.query,
+      variables: request.variables,
+    },
+    instance,
+  });
+
+  const list = () => entries.map(entry => entry.mutation);
+
+  const updateQueue = () => {
+    const mutations = list();
+    if (storage && storage.writeMetadata) {
+      storage.writeMetadata(
+        mutations.map(mutation => ({
+          query: print(mutation.query),
+          variables: mutation.variables,
         }))
       );
-    };
+    }
 
-    let _flushing = false;
-    const flushQueue = () => {
-      let request: void | GraphQLRequest;
-      while (!_flushing && (request = failedQueue.shift())) {
-        _flushing = true;
-        client.dispatchOperation(
-          client.createRequestOperation('mutation', request)
-        );
-        _flushing = false;
+    for (let i = 0; i < listeners.length; i++) listeners[i](mutations);
+  };
+
+  // Mutations are replayed one at a time to preserve their order
+  const replayNext = () => {
+    const instance =
+      !replaying && entries.length && (entries[0].instance || latestInstance);
+    if (instance) {
+      replaying = entries[0];
+      replaying.instance = instance;
+      const { client } = instance;
+      const { key, query, variables } = replaying.mutation;
+      client.dispatchOperation(
+        client.createRequestOperation('mutation', { key, query, variables })
+      );
+    }
+  };
+
+  const handleReplayError = (
+    entry: QueueEntry,
+    index: number,
+    error: CombinedError
+  ) => {
+    const { mutation } = entry;
+    const fieldNames = getMutationFields(entry.operation!);
+
+    let variables: Variables | void;
+    if (error.graphQLErrors.length) {
+      for (let i = 0; i < fieldNames.length && !variables; i++) {
+        const resolver = conflictResolvers[fieldNames[i]];
+        if (resolver) variables = resolver(error, mutation);
+      }
+    }
+
+    if (variables) {
+      // The resolved mutation takes the place of the conflicting one
+      entries.splice(
+        index,
+        0,
+        makeEntry(
+          createRequest(mutation.query, variables),
+          mutation.id,
+          entry.instance
+        )
+      );
+    } else {
+      for (let i = 0; i < fieldNames.length; i++) {
+        const handler = replayErrorHandlers[fieldNames[i]];
+        if (handler) handler(error, mutation);
+      }
+    }
+  };
+
+  const queue: OfflineQueue = {
+    list,
+    remove(id) {
+      for (let i = 0; i < entries.length; i++) {
+        if (entries[i].mutation.id === id) {
+          const entry = entries[i];
+          entries.splice(i, 1);
+          // A mutation that's being replayed is reverted by its own result
+          if (entry.operation && entry.instance && entry !== replaying) {
+            entry.instance.revertedResults.next(
+              makeErrorResult(
+                entry.operation,
+                new Error(
+                  'The mutation has been removed from the offline queue.'
+                )
+              )
+            );
+          }
+
+          updateQueue();
+          return;
+        }
       }
+    },
+    retry: replayNext,
+    subscribe(listener) {
+      listeners.push(listener);
+      return () => {
+        const index = listeners.indexOf(listener);
+        if (index > -1) listeners.splice(index, 1);
+      };
+    },
+  };
 
-      updateMetadata();
+  const offline: OfflineExchange = ({
+    forward: outerForward,
+    client: exchangeClient,
+    dispatchDebug,
+  }) => {
+    let forward = outerForward;
+    // Results that are sent past the cacheExchange to resolve queued mutations
+    const queuedResults = makeSubject<OperationResult>();
+    const instance: Instance = {
+      client: exchangeClient,
+      revertedResults: makeSubject<OperationResult>(),
     };
 
-    forward = ops$ => {
-      return pipe(
-        outerForward(ops$),
-        filter(res => {
-          if (
-            res.operation.operationName === 'subscription' ||
-            !isOfflineError(res.error)
-          ) {
-            return true;
-          } else if (res.operation.operationName === 'mutation') {
-            if (isOptimisticMutation(optimisticMutations, res.operation)) {
-              failedQueue.push(res.operation);
-              updateMetadata();
-              return false;
-            } else {
+    latestInstance = instance;
+
+    if (
+      storage &&
+      storage.onOnline &&
+      storage.readMetadata &&
+      storage.writeMetadata
+    ) {
+      forward = ops$ => {
+        const result$ = pipe(
+          outerForward(ops$),
+          filter(res => {
+            const { operation } = res;
+            if (
+              replaying &&
+              replaying.instance === instance &&
+              operation.operationName === 'mutation' &&
+              operation.key === replaying.mutation.key
+            ) {
+              const entry = replaying;
+              replaying = null;
+              entry.operation = operation;
+              // When we're still offline the mutation stays queued and its
+              // optimistic update is kept around
+              if (isOfflineError(res.error)) return false;
+
+              const index = entries.indexOf(entry);
+              if (index > -1) {
+                entries.splice(index, 1);
+                if (res.error) handleReplayError(entry, index, res.error);
+                updateQueue();
+              }
+
+              Promise.resolve().then(replayNext);
               return true;
+            } else if (
+              operation.operationName === 'subscription' ||
+              !isOfflineError(res.error)
+            ) {
+              return true;
+            } else if (operation.operationName === 'mutation') {
+              if (isOptimisticMutation(optimisticMutations, operation)) {
+                const entry = makeEntry(operation, ++currentId, instance);
+                entry.operation = operation;
+                entries.push(entry);
+                updateQueue();
+                queuedResults.next({ ...res, queuedOffline: true });
+                return false;
+              } else {
+                return true;
+              }
+            } else {
+              return false;
             }
-          } else {
-            return false;
+          })
+        );
+
+        return merge([result$, instance.revertedResults.source]);
+      };
+
+      if (!isRestored) {
+        // The persisted queue is only restored once, even when the exchange is reused
+        isRestored = true;
+        storage.onOnline(replayNext);
+        storage.readMetadata().then(mutations => {
+          if (mutations && mutations.length) {
+            for (let i = 0; i < mutations.length; i++)
+              entries.push(
+                makeEntry(
+                  createRequest(mutations[i].query, mutations[i].variables)
+                )
+              );
+            updateQueue();
           }
-        })
-      );
-    };
 
-    storage.onOnline(flushQueue);
-    storage.readMetadata().then(mutations => {
-      if (mutations)
-        for (let i = 0; i < mutations.length; i++)
-          failedQueue.push(
-            createRequest(mutations[i].query, mutations[i].variables)
-          );
-      flushQueue();
+          replayNext();
+        });
+      }
+    }
+
+    const cache$ = cache({
+      forward,
+      client: exchangeClient,
+      dispatchDebug,
     });
-  }
 
-  return cacheExchange(opts)({
-    forward,
-    client,
-    dispatchDebug,
-  });
+    return ops$ => merge([cache$(ops$), queuedResults.source]);
+  };
+
+  offline.queue = queue;
+  offline.extractData = cache.extractData;
+  offline.restoreData = cache.restoreData;
+  return offline;
 };
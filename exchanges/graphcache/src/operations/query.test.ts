@@ -67,6 +67,34 @@ describe('Query', () => {
     });
   });
 
+  it('reports the paths of missing fields for partial results', () => {
+    const result = query(store, { query: TODO_QUERY });
+    expect(result.partial).toBe(true);
+    expect(result.missingFields).toEqual(['todos.complete', 'todos.author']);
+
+    const ALIASED_QUERY = gql`
+      query {
+        items: todos {
+          id
+          text
+          __typename
+        }
+        first: todos {
+          id
+          owner: author {
+            id
+            __typename
+          }
+          __typename
+        }
+      }
+    `;
+
+    expect(query(store, { query: ALIASED_QUERY }).missingFields).toEqual([
+      'first.owner',
+    ]);
+  });
+
   it('should warn once for invalid fields on an entity', () => {
     const INVALID_TODO_QUERY = gql`
       query InvalidTodo {
@@ -256,3 +284,256 @@ describe('Query', () => {
     expect(console.error).not.toHaveBeenCalled();
   });
 });
+
+describe('Query with a ttl', () => {
+  let schema, now: jest.SpyInstance;
+
+  const data = {
+    __typename: 'Query',
+    todos: [
+      {
+        __typename: 'Todo',
+        id: '0',
+        text: 'Teach',
+        complete: false,
+        author: {
+          __typename: 'Author',
+          id: '0',
+          name: 'Jovi',
+          known: true,
+        },
+      },
+    ],
+  };
+
+  beforeAll(() => {
+    schema = require('../test-utils/simple_schema.json');
+  });
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  it('treats fields as missing once their ttl has expired', () => {
+    const store = new Store({ ttl: 100 });
+    write(store, { query: TODO_QUERY }, data);
+
+    now.mockReturnValue(1100);
+    expect(query(store, { query: TODO_QUERY }).data).toEqual(data);
+
+    now.mockReturnValue(1101);
+    expect(query(store, { query: TODO_QUERY }).data).toBe(null);
+  });
+
+  it('refreshes the ttl of fields when they are written again', () => {
+    const store = new Store({ ttl: 100 });
+    write(store, { query: TODO_QUERY }, data);
+
+    now.mockReturnValue(1050);
+    write(store, { query: TODO_QUERY }, data);
+
+    now.mockReturnValue(1101);
+    expect(query(store, { query: TODO_QUERY }).data).toEqual(data);
+  });
+
+  it('applies per-type ttls and returns partial results for nullable fields', () => {
+    const store = new Store({ schema, ttl: { types: { Author: 100 } } });
+    write(store, { query: TODO_QUERY }, data);
+
+    now.mockReturnValue(5000);
+    const result = query(store, { query: TODO_QUERY });
+
+    expect(result.partial).toBe(true);
+    expect(result.data).toEqual({
+      ...data,
+      todos: [{ ...data.todos[0], author: null }],
+    });
+  });
+
+  it('prefers per-type ttls over the default ttl', () => {
+    const store = new Store({
+      ttl: { default: 100, types: { Query: 1000, Todo: 1000, Author: 1000 } },
+    });
+
+    write(store, { query: TODO_QUERY }, data);
+
+    now.mockReturnValue(1500);
+    expect(query(store, { query: TODO_QUERY }).data).toEqual(data);
+  });
+});
+
+describe('Query with deferred fragments', () => {
+  const DEFERRED_QUERY = gql`
+    query {
+      todos {
+        __typename
+        id
+        text
+        ... on Todo @defer {
+          complete
+        }
+      }
+    }
+  `;
+
+  it('returns complete results while deferred fields are still missing and more results follow', () => {
+    const store = new Store();
+    const data = {
+      __typename: 'Query',
+      todos: [{ __typename: 'Todo', id: '0', text: 'Teach' }],
+    };
+
+    write(store, { query: DEFERRED_QUERY }, data);
+    expect(console.warn).not.toHaveBeenCalled();
+
+    const result = query(store, { query: DEFERRED_QUERY }, data, true);
+    expect(result.partial).toBe(false);
+    expect(result.data).toEqual({
+      __typename: 'Query',
+      todos: [{ __typename: 'Todo', id: '0', text: 'Teach' }],
+    });
+
+    write(
+      store,
+      { query: DEFERRED_QUERY },
+      {
+        __typename: 'Query',
+        todos: [{ __typename: 'Todo', id: '0', text: 'Teach', complete: true }],
+      }
+    );
+
+    expect(query(store, { query: DEFERRED_QUERY }).data).toEqual({
+      __typename: 'Query',
+      todos: [{ __typename: 'Todo', id: '0', text: 'Teach', complete: true }],
+    });
+  });
+
+  it('treats missing deferred fields as cache misses when no more results follow', () => {
+    const store = new Store();
+
+    write(
+      store,
+      { query: DEFERRED_QUERY },
+      {
+        __typename: 'Query',
+        todos: [{ __typename: 'Todo', id: '0', text: 'Teach' }],
+      }
+    );
+
+    expect(query(store, { query: DEFERRED_QUERY }).data).toBe(null);
+  });
+
+  it('treats missing nullable deferred fields as partial when no more results follow', () => {
+    const store = new Store({
+      schema: require('../test-utils/simple_schema.json'),
+    });
+
+    write(
+      store,
+      { query: DEFERRED_QUERY },
+      {
+        __typename: 'Query',
+        todos: [{ __typename: 'Todo', id: '0', text: 'Teach' }],
+      }
+    );
+
+    const result = query(store, { query: DEFERRED_QUERY });
+    expect(result.partial).toBe(true);
+    expect(result.missingFields).toEqual(['todos.complete']);
+  });
+
+  it('treats missing fields as cache misses when the fragment is not deferred', () => {
+    const store = new Store();
+    const NON_DEFERRED_QUERY = gql`
+      query {
+        todos {
+          __typename
+          id
+          text
+          ... on Todo @defer(if: false) {
+            complete
+          }
+        }
+      }
+    `;
+
+    write(
+      store,
+      { query: NON_DEFERRED_QUERY },
+      {
+        __typename: 'Query',
+        todos: [{ __typename: 'Todo', id: '0', text: 'Teach' }],
+      }
+    );
+
+    expect(query(store, { query: NON_DEFERRED_QUERY }).data).toBe(null);
+  });
+});
+
+describe('Query with client-only fields', () => {
+  it('reads client-only fields from local state without treating them as misses', () => {
+    const store = new Store({
+      schema: require('../test-utils/simple_schema.json'),
+    });
+    const CLIENT_QUERY = gql`
+      query {
+        todos {
+          __typename
+          id
+          text
+          ... on Todo @_client {
+            isEditing
+          }
+        }
+        filter @_client
+      }
+    `;
+
+    write(
+      store,
+      { query: CLIENT_QUERY },
+      {
+        __typename: 'Query',
+        todos: [{ __typename: 'Todo', id: '0', text: 'Teach' }],
+      }
+    );
+
+    expect(console.warn).not.toHaveBeenCalled();
+
+    let result = query(store, { query: CLIENT_QUERY });
+    expect(result.partial).toBe(false);
+    expect(result.data).toEqual({
+      __typename: 'Query',
+      todos: [{ __typename: 'Todo', id: '0', text: 'Teach', isEditing: null }],
+      filter: null,
+    });
+
+    // Local state is written like any other data
+    write(
+      store,
+      {
+        query: gql`
+          {
+            todos {
+              __typename
+              id
+              isEditing @_client
+            }
+          }
+        `,
+      },
+      {
+        __typename: 'Query',
+        todos: [{ __typename: 'Todo', id: '0', isEditing: true }],
+      }
+    );
+
+    result = query(store, { query: CLIENT_QUERY });
+    expect(result.data).toHaveProperty('todos.0.isEditing', true);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+});
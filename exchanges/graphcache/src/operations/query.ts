@@ -55,16 +55,19 @@ import {
 export interface QueryResult {
   dependencies: Dependencies;
   partial: boolean;
+  /** The paths of nullable fields that were missing from a partial result, e.g. `todos.author` */
+  missingFields: string[];
   data: null | Data;
 }
 
 export const query = (
   store: Store,
   request: OperationRequest,
-  data?: Data
+  data?: Data,
+  hasNext?: boolean
 ): QueryResult => {
   initDataState('read', store.data, null);
-  const result = read(store, request, data);
+  const result = read(store, request, data, hasNext);
   clearDataState();
   return result;
 };
@@ -72,7 +75,8 @@ export const query = (
 export const read = (
   store: Store,
   request: OperationRequest,
-  input?: Data
+  input?: Data,
+  hasNext?: boolean
 ): QueryResult => {
   const operation = getMainOperation(request.query);
   const rootKey = store.rootFields[operation.operation];
@@ -86,6 +90,9 @@ export const read = (
     rootKey
   );
 
+  // Deferred fields may only be missing while more results are still expected
+  ctx.hasNext = !!hasNext;
+
   if (process.env.NODE_ENV !== 'production') {
     pushDebugNode(rootKey, operation);
   }
@@ -100,9 +107,11 @@ export const read = (
     popDebugNode();
   }
 
+  const partial = data === undefined ? false : ctx.partial;
   return {
     dependencies: getCurrentDependencies(),
-    partial: data === undefined ? false : ctx.partial,
+    partial,
+    missingFields: partial ? ctx.missingFields : [],
     data: data === undefined ? null : data,
   };
 };
@@ -125,7 +134,14 @@ const readRoot = (
   while ((node = iter.next()) !== undefined) {
     const fieldAlias = getFieldAlias(node);
     const fieldValue = originalData[fieldAlias];
-    if (node.selectionSet !== undefined && fieldValue !== null) {
+    if (
+      fieldValue === undefined &&
+      ((ctx.deferred && ctx.hasNext) || ctx.client)
+    ) {
+      // Deferred fields may not have been delivered yet and are left out,
+      // and client-only fields are never part of API results
+      continue;
+    } else if (node.selectionSet !== undefined && fieldValue !== null) {
       const fieldData = ensureData(fieldValue);
       data[fieldAlias] = readRootField(ctx, getSelectionSet(node), fieldData);
     } else {
@@ -275,22 +291,37 @@ const readSelection = (
   // sake of resolving from an existing resolver result
   data.__typename = typename;
   const iter = makeSelectionIterator(typename, entityKey, select, ctx);
+  const ttl = getTypeTTL(store, typename);
 
   let node: FieldNode | void;
   let hasFields = false;
   let hasPartials = false;
+  // Missing fields of a selection that turns out to be missing itself aren't reported
+  const missingLength = ctx.missingFields.length;
   while ((node = iter.next()) !== undefined) {
     // Derive the needed data from our node.
     const fieldName = getName(node);
     const fieldArgs = getFieldArguments(node, ctx.variables);
     const fieldAlias = getFieldAlias(node);
     const fieldKey = keyOfField(fieldName, fieldArgs);
+    ctx.path.push(fieldAlias);
     const key = joinKeys(entityKey, fieldKey);
     const fieldValue = InMemoryData.readRecord(entityKey, fieldKey);
     const resultValue = result ? result[fieldName] : undefined;
     const resolvers = store.resolvers[typename];
+    const isDeferred = ctx.deferred && ctx.hasNext;
+    const isClient = ctx.client;
+    // Fields that have been cached for longer than their time-to-live are treated as missing
+    const isExpired =
+      ttl !== undefined &&
+      InMemoryData.isFieldExpired(entityKey, fieldKey, ttl);
 
-    if (process.env.NODE_ENV !== 'production' && store.schema && typename) {
+    if (
+      process.env.NODE_ENV !== 'production' &&
+      store.schema &&
+      typename &&
+      !isClient
+    ) {
       isFieldAvailableOnType(store.schema, typename, fieldName);
     }
 
@@ -339,16 +370,19 @@ const readSelection = (
 
       if (
         store.schema &&
+        !isClient &&
         dataFieldValue === null &&
         !isFieldNullable(store.schema, typename, fieldName)
       ) {
         // Special case for when null is not a valid value for the
         // current field
+        ctx.path.pop();
+        ctx.missingFields.length = missingLength;
         return undefined;
       }
     } else if (node.selectionSet === undefined) {
       // The field is a scalar but isn't on the result, so it's retrieved from the cache
-      dataFieldValue = fieldValue;
+      dataFieldValue = !isExpired ? fieldValue : undefined;
     } else if (resultValue !== undefined) {
       // We start walking the nested resolver result here
       dataFieldValue = resolveResolverResult(
@@ -360,7 +394,7 @@ const readSelection = (
         data[fieldAlias] as Data,
         resultValue
       );
-    } else {
+    } else if (!isExpired) {
       // Otherwise we attempt to get the missing field from the cache
       const link = InMemoryData.readLink(entityKey, fieldKey);
 
@@ -382,27 +416,48 @@ const readSelection = (
     // Now that dataFieldValue has been retrieved it'll be set on data
     // If it's uncached (undefined) but nullable we can continue assembling
     // a partial query result
-    if (
+    if (dataFieldValue === undefined && isDeferred) {
+      // The field is part of a deferred fragment that hasn't been delivered
+      // yet, which doesn't make a result partial while more results follow
+      ctx.path.pop();
+      continue;
+    } else if (dataFieldValue === undefined && isClient) {
+      // Client-only fields are only resolved locally, so a missing value
+      // is treated as null rather than as a cache miss
+      hasFields = true;
+      data[fieldAlias] = null;
+    } else if (
       dataFieldValue === undefined &&
       store.schema &&
       isFieldNullable(store.schema, typename, fieldName)
     ) {
       // The field is uncached but we have a schema that says it's nullable
       // Set the field to null and continue
+      const path = ctx.path.join('.');
+      if (ctx.missingFields.indexOf(path) === -1) ctx.missingFields.push(path);
       hasPartials = true;
       data[fieldAlias] = null;
     } else if (dataFieldValue === undefined) {
       // The field is uncached and not nullable; return undefined
+      ctx.path.pop();
+      ctx.missingFields.length = missingLength;
       return undefined;
     } else {
       // Otherwise continue as usual
       hasFields = true;
       data[fieldAlias] = dataFieldValue;
     }
+
+    ctx.path.pop();
   }
 
   if (hasPartials) ctx.partial = true;
-  return isQuery && hasPartials && !hasFields ? undefined : data;
+  if (isQuery && hasPartials && !hasFields) {
+    ctx.missingFields.length = missingLength;
+    return undefined;
+  }
+
+  return data;
 };
 
 const resolveResolverResult = (
@@ -419,7 +474,9 @@ const resolveResolverResult = (
     // Check whether values of the list may be null; for resolvers we assume
     // that they can be, since it's user-provided data
     const _isListNullable =
-      !store.schema || isListNullable(store.schema, typename, fieldName);
+      !store.schema ||
+      ctx.client ||
+      isListNullable(store.schema, typename, fieldName);
     const data = new Array(result.length);
     for (let i = 0, l = result.length; i < l; i++) {
       // Recursively read resolver result
@@ -477,7 +534,8 @@ const resolveLink = (
   if (Array.isArray(link)) {
     const { store } = ctx;
     const _isListNullable =
-      store.schema && isListNullable(store.schema, typename, fieldName);
+      ctx.client ||
+      (store.schema && isListNullable(store.schema, typename, fieldName));
     const newLink = new Array(link.length);
     for (let i = 0, l = link.length; i < l; i++) {
       const childLink = resolveLink(
@@ -505,6 +563,11 @@ const resolveLink = (
   }
 };
 
+const getTypeTTL = (store: Store, typename: string): number | undefined =>
+  store.ttl.types && store.ttl.types[typename] !== undefined
+    ? store.ttl.types[typename]
+    : store.ttl.default;
+
 const isDataOrKey = (x: any): x is string | Data =>
   typeof x === 'string' ||
   (typeof x === 'object' && typeof (x as any).__typename === 'string');
@@ -13,7 +13,13 @@ import { warn, pushDebugNode, popDebugNode } from '../helpers/help';
 import { hasField } from '../store/data';
 import { Store, keyOfField } from '../store';
 import { Fragments, Variables, DataField, NullArray, Data } from '../types';
-import { getFieldArguments, shouldInclude, isInterfaceOfType } from '../ast';
+import {
+  getFieldArguments,
+  shouldInclude,
+  isDeferred,
+  isClient,
+  isInterfaceOfType,
+} from '../ast';
 
 export interface Context {
   store: Store;
@@ -24,6 +30,11 @@ export interface Context {
   parentFieldKey: string;
   fieldName: string;
   partial: boolean;
+  path: string[];
+  missingFields: string[];
+  deferred: boolean;
+  hasNext: boolean;
+  client: boolean;
   optimistic: boolean;
 }
 
@@ -43,6 +54,11 @@ export const makeContext = (
   parentFieldKey: '',
   fieldName: '',
   partial: false,
+  path: [],
+  missingFields: [],
+  deferred: false,
+  hasNext: false,
+  client: false,
   optimistic: !!optimistic,
 });
 
@@ -98,6 +114,11 @@ export const makeSelectionIterator = (
 ) => {
   const indexStack: number[] = [0];
   const selectionStack: SelectionSet[] = [select];
+  // Selections inside deferred fragments are allowed to be missing, and
+  // this is inherited from the field that the iterator has been created for
+  const deferredStack: boolean[] = [ctx.deferred];
+  // Selections inside client-only fragments and fields are never sent to the API
+  const clientStack: boolean[] = [ctx.client];
 
   return {
     next() {
@@ -107,6 +128,8 @@ export const makeSelectionIterator = (
         if (index >= select.length) {
           indexStack.pop();
           selectionStack.pop();
+          deferredStack.pop();
+          clientStack.pop();
           if (process.env.NODE_ENV !== 'production') {
             popDebugNode();
           }
@@ -142,6 +165,13 @@ export const makeSelectionIterator = (
               if (isMatching) {
                 indexStack.push(0);
                 selectionStack.push(getSelectionSet(fragmentNode));
+                deferredStack.push(
+                  deferredStack[deferredStack.length - 1] ||
+                    isDeferred(node, ctx.variables)
+                );
+                clientStack.push(
+                  clientStack[clientStack.length - 1] || isClient(node)
+                );
               }
             }
 
@@ -149,6 +179,8 @@ export const makeSelectionIterator = (
           } else if (getName(node) === '__typename') {
             continue;
           } else {
+            ctx.deferred = deferredStack[deferredStack.length - 1];
+            ctx.client = clientStack[clientStack.length - 1] || isClient(node);
             return node;
           }
         }
@@ -186,3 +186,159 @@ describe('Query', () => {
     expect(InMemoryData.readRecord('Query', 'field')).toBe('test');
   });
 });
+
+describe('List directives', () => {
+  let store;
+
+  beforeEach(() => {
+    store = new Store();
+    write(
+      store,
+      { query: TODO_QUERY },
+      {
+        __typename: 'Query',
+        todos: [
+          {
+            id: '0',
+            text: 'Teach',
+            complete: false,
+            author: null,
+            __typename: 'Todo',
+          },
+          {
+            id: '1',
+            text: 'Learn',
+            complete: false,
+            author: null,
+            __typename: 'Todo',
+          },
+        ],
+      }
+    );
+  });
+
+  const readTodos = () => {
+    InMemoryData.initDataState('read', store.data, null);
+    const link = InMemoryData.readLink('Query', 'todos');
+    InMemoryData.clearDataState();
+    return link;
+  };
+
+  it('appends and prepends written entities to a list', () => {
+    const mutation = gql`
+      mutation {
+        first: addTodo @_prepend(to: "Query.todos") {
+          id
+          text
+        }
+        last: addTodo @_append(to: "Query.todos") {
+          id
+          text
+        }
+      }
+    `;
+
+    write(
+      store,
+      { query: mutation },
+      {
+        __typename: 'Mutation',
+        first: { __typename: 'Todo', id: '2', text: 'First' },
+        last: { __typename: 'Todo', id: '3', text: 'Last' },
+      }
+    );
+
+    expect(readTodos()).toEqual(['Todo:2', 'Todo:0', 'Todo:1', 'Todo:3']);
+  });
+
+  it('does not add entities that are already in the list', () => {
+    const mutation = gql`
+      mutation {
+        updateTodo @_append(to: "Query.todos") {
+          id
+          text
+        }
+      }
+    `;
+
+    write(
+      store,
+      { query: mutation },
+      {
+        __typename: 'Mutation',
+        updateTodo: { __typename: 'Todo', id: '0', text: 'Teach more' },
+      }
+    );
+
+    expect(readTodos()).toEqual(['Todo:0', 'Todo:1']);
+  });
+
+  it('removes written entities from a list', () => {
+    const mutation = gql`
+      mutation($list: String!) {
+        removeTodo @_remove(to: $list) {
+          id
+        }
+      }
+    `;
+
+    write(
+      store,
+      { query: mutation, variables: { list: 'Query.todos' } },
+      {
+        __typename: 'Mutation',
+        removeTodo: { __typename: 'Todo', id: '0' },
+      }
+    );
+
+    expect(readTodos()).toEqual(['Todo:1']);
+  });
+
+  it('ignores lists that have not been cached yet', () => {
+    const mutation = gql`
+      mutation {
+        addTodo @_append(to: "Query.archivedTodos") {
+          id
+        }
+      }
+    `;
+
+    write(
+      store,
+      { query: mutation },
+      {
+        __typename: 'Mutation',
+        addTodo: { __typename: 'Todo', id: '2' },
+      }
+    );
+
+    InMemoryData.initDataState('read', store.data, null);
+    expect(InMemoryData.readLink('Query', 'archivedTodos')).toBe(undefined);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it('warns when the target is not a list of entities', () => {
+    const mutation = gql`
+      mutation {
+        addTodo @_append(to: "todos") {
+          id
+        }
+      }
+    `;
+
+    write(
+      store,
+      { query: mutation },
+      {
+        __typename: 'Mutation',
+        addTodo: { __typename: 'Todo', id: '2' },
+      }
+    );
+
+    expect(console.warn).toHaveBeenCalledTimes(1);
+    expect((console.warn as any).mock.calls[0][0]).toMatch(
+      /Invalid list directive/
+    );
+    expect(readTodos()).toEqual(['Todo:0', 'Todo:1']);
+  });
+});
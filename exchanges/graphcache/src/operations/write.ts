@@ -11,6 +11,8 @@ import {
   SelectionSet,
   getFragmentTypeName,
   getFieldAlias,
+  getListUpdates,
+  ListUpdate,
 } from '../ast';
 
 import { invariant, warn, pushDebugNode, popDebugNode } from '../helpers/help';
@@ -23,6 +25,7 @@ import {
   OperationRequest,
   Dependencies,
   EntityField,
+  DataField,
 } from '../types';
 
 import {
@@ -57,6 +60,8 @@ export const write = (
 ): WriteResult => {
   initDataState('write', store.data, key || null);
   const result = startWrite(store, request, data);
+  // Evicting entities adds their dependencies so that affected queries are updated
+  InMemoryData.evictLRU();
   clearDataState();
   return result;
 };
@@ -214,7 +219,13 @@ const writeSelection = (
     const fieldAlias = getFieldAlias(node);
     let fieldValue = data[fieldAlias];
 
-    if (process.env.NODE_ENV !== 'production') {
+    if (fieldValue === undefined && ctx.deferred) {
+      // Deferred fields may be missing from results and are written once they're delivered
+      continue;
+    } else if (fieldValue === undefined && ctx.client) {
+      // Client-only fields are never part of API results
+      continue;
+    } else if (process.env.NODE_ENV !== 'production') {
       if (!isRoot && fieldValue === undefined) {
         const advice = ctx.optimistic
           ? '\nYour optimistic result may be missing a field!'
@@ -236,7 +247,7 @@ const writeSelection = (
         );
 
         continue; // Skip this field
-      } else if (ctx.store.schema && typename) {
+      } else if (ctx.store.schema && typename && !ctx.client) {
         isFieldAvailableOnType(ctx.store.schema, typename, fieldName);
       }
     }
@@ -285,6 +296,11 @@ const writeSelection = (
         fieldName
       );
 
+      // List directives insert or remove the written entities from other list links
+      const listUpdates = getListUpdates(node, ctx.variables);
+      for (let i = 0, l = listUpdates.length; i < l; i++)
+        writeListUpdate(ctx, listUpdates[i], fieldValue);
+
       // We run side-effect updates after the default, normalized updates
       // so that the data is already available in-store if necessary
       const updater = ctx.store.updates[typename][fieldName];
@@ -296,6 +312,63 @@ const writeSelection = (
   }
 };
 
+const collectEntityKeys = (
+  ctx: Context,
+  data: DataField,
+  keys: string[] = []
+): string[] => {
+  if (Array.isArray(data)) {
+    for (let i = 0, l = data.length; i < l; i++)
+      collectEntityKeys(ctx, data[i], keys);
+  } else if (data && typeof data === 'object') {
+    const entityKey = ctx.store.keyOfEntity(data as Data);
+    if (entityKey) keys.push(entityKey);
+  }
+
+  return keys;
+};
+
+const writeListUpdate = (ctx: Context, update: ListUpdate, data: DataField) => {
+  const index = update.to.indexOf('.');
+  const entityKey = update.to.slice(0, index);
+  const fieldKey = update.to.slice(index + 1);
+  const link = index > 0 ? InMemoryData.readLink(entityKey, fieldKey) : null;
+  if (index <= 0 || typeof link === 'string') {
+    if (process.env.NODE_ENV !== 'production') {
+      warn(
+        'Invalid list directive: The `@_' +
+          update.kind +
+          '` directive on `' +
+          ctx.fieldName +
+          '` targets `' +
+          update.to +
+          '`, which is not a list of entities.\n' +
+          'The `to` argument must point to a list field as `entityKey.fieldKey`, e.g. `Query.todos`.',
+        27
+      );
+    }
+    return;
+  } else if (!Array.isArray(link)) {
+    // The list hasn't been cached yet, so there's nothing to update
+    return;
+  }
+
+  const keys = collectEntityKeys(ctx, data);
+  const newKeys = keys.filter(key => link.indexOf(key) === -1);
+  let newLink: Link;
+  if (update.kind === 'remove') {
+    newLink = link.filter(key => keys.indexOf(key as string) === -1);
+    if (newLink.length === link.length) return;
+  } else if (!newKeys.length) {
+    return;
+  } else {
+    newLink =
+      update.kind === 'append' ? [...link, ...newKeys] : [...newKeys, ...link];
+  }
+
+  InMemoryData.writeLink(entityKey, fieldKey, newLink);
+};
+
 // A pattern to match typenames of types that are likely never keyable
 const KEYLESS_TYPE_RE = /^__|PageInfo|(Connection|Edge)$/;
 
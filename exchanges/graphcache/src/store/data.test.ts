@@ -120,6 +120,78 @@ describe('garbage collection', () => {
   });
 });
 
+describe('referrers', () => {
+  beforeEach(() => {
+    data = InMemoryData.make('Query', 10);
+    InMemoryData.initDataState('write', data, null);
+  });
+
+  it('removes links from the referrers of entities they no longer point to', () => {
+    InMemoryData.writeLink('Query', 'todo', 'Todo:1');
+    InMemoryData.writeLink('Query', 'todos', ['Todo:1', 'Todo:2']);
+    expect(data.referrers.get('Todo:1')!.size).toBe(2);
+
+    InMemoryData.writeLink('Query', 'todo', 'Todo:2');
+    InMemoryData.writeLink('Query', 'todos', ['Todo:2']);
+
+    expect(data.referrers.has('Todo:1')).toBe(false);
+    expect(data.referrers.get('Todo:2')!.size).toBe(2);
+  });
+
+  it('keeps referrers of links that still point to an entity on another layer', () => {
+    InMemoryData.writeLink('Query', 'todo', 'Todo:1');
+    InMemoryData.initDataState('write', data, 1, true);
+    InMemoryData.writeLink('Query', 'todo', 'Todo:2');
+    InMemoryData.writeLink('Query', 'todo', 'Todo:3');
+
+    expect(data.referrers.get('Todo:1')!.size).toBe(1);
+    expect(data.referrers.has('Todo:2')).toBe(false);
+  });
+});
+
+describe('timestamps', () => {
+  beforeEach(() => {
+    data = InMemoryData.make('Query', undefined, true);
+    InMemoryData.initDataState('write', data, null);
+  });
+
+  it('does not track timestamps unless fields may expire', () => {
+    data = InMemoryData.make('Query');
+    InMemoryData.initDataState('write', data, null);
+    InMemoryData.writeRecord('Todo:1', 'id', '1');
+    InMemoryData.writeLink('Query', 'todo', 'Todo:1');
+
+    expect(data.timestamps.base.size).toBe(0);
+    expect(InMemoryData.isFieldExpired('Todo:1', 'id', 0)).toBe(false);
+  });
+
+  it('expires fields that have been written longer ago than the ttl', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    InMemoryData.initDataState('write', data, null);
+    InMemoryData.writeRecord('Todo:1', 'id', '1');
+    InMemoryData.writeLink('Query', 'todo', 'Todo:1');
+
+    now.mockReturnValue(1500);
+    InMemoryData.initDataState('read', data, null);
+    expect(InMemoryData.isFieldExpired('Todo:1', 'id', 1000)).toBe(false);
+    expect(InMemoryData.isFieldExpired('Todo:1', 'id', 100)).toBe(true);
+    expect(InMemoryData.isFieldExpired('Query', 'todo', 100)).toBe(true);
+    expect(InMemoryData.isFieldExpired('Todo:1', 'unknown', 100)).toBe(false);
+    now.mockRestore();
+  });
+
+  it('erases timestamps of garbage collected entities', () => {
+    InMemoryData.writeRecord('Todo:1', 'id', '1');
+    InMemoryData.writeLink('Query', 'todo', 'Todo:1');
+    expect(data.timestamps.base.has('Todo:1')).toBe(true);
+
+    InMemoryData.writeLink('Query', 'todo', undefined);
+    InMemoryData.gc();
+
+    expect(data.timestamps.base.has('Todo:1')).toBe(false);
+  });
+});
+
 describe('inspectFields', () => {
   it('returns field infos for all links and records', () => {
     InMemoryData.writeRecord('Query', '__typename', 'Query');
@@ -8,6 +8,7 @@ import {
   SerializedEntries,
   Dependencies,
   OperationType,
+  StoreSnapshot,
 } from '../types';
 
 import {
@@ -17,8 +18,8 @@ import {
   joinKeys,
 } from './keys';
 
-import { makeDict } from '../helpers/dict';
-import { invariant, currentDebugStack } from '../helpers/help';
+import { makeDict, isDictEmpty } from '../helpers/dict';
+import { invariant, warn, currentDebugStack } from '../helpers/help';
 
 type Dict<T> = Record<string, T>;
 type KeyMap<T> = Map<string, T>;
@@ -46,12 +47,22 @@ export interface InMemoryData {
   records: NodeMap<EntityField>;
   /** A map of entity links which are connections from one entity to another (key-value entries per entity) */
   links: NodeMap<Link>;
+  /** A map of the times at which entity fields and links have last been written (key-value entries per entity) */
+  timestamps: NodeMap<number>;
+  /** Whether the times at which entity fields and links are written are tracked, if the `ttl` option is set */
+  expiring: boolean;
   /** A set of Query operation keys that are in-flight and awaiting a result */
   commutativeKeys: Set<number>;
   /** The order of optimistic layers */
   optimisticOrder: number[];
   /** This may be a persistence adapter that will receive changes in a batch */
   storage: StorageAdapter | null;
+  /** The maximum number of entities that are kept before the least recently used ones are evicted (0 for no limit) */
+  maxEntities: number;
+  /** The keys of all entities ordered by when they've last been read or written, if `maxEntities` is set */
+  lru: Set<string>;
+  /** The keys of the links that may point to each entity, if `maxEntities` is set */
+  referrers: Map<string, Set<string>>;
 }
 
 let currentOperation: null | OperationType = null;
@@ -59,6 +70,7 @@ let currentData: null | InMemoryData = null;
 let currentDependencies: null | Dependencies = null;
 let currentOptimisticKey: null | number = null;
 let currentIgnoreOptimistic = false;
+let currentTime = 0;
 
 const makeNodeMap = <T>(): NodeMap<T> => ({
   optimistic: makeDict(),
@@ -76,6 +88,7 @@ export const initDataState = (
   currentData = data;
   currentDependencies = makeDict();
   currentIgnoreOptimistic = !!isOptimistic;
+  currentTime = Date.now();
   if (process.env.NODE_ENV !== 'production') {
     currentDebugStack.length = 0;
   }
@@ -188,7 +201,11 @@ export const getCurrentDependencies = (): Dependencies => {
   return currentDependencies;
 };
 
-export const make = (queryRootKey: string): InMemoryData => ({
+export const make = (
+  queryRootKey: string,
+  maxEntities?: number,
+  expiring?: boolean
+): InMemoryData => ({
   defer: false,
   gc: new Set(),
   persist: new Set(),
@@ -197,9 +214,14 @@ export const make = (queryRootKey: string): InMemoryData => ({
   refLock: makeDict(),
   links: makeNodeMap(),
   records: makeNodeMap(),
+  timestamps: makeNodeMap(),
+  expiring: !!expiring,
   commutativeKeys: new Set(),
   optimisticOrder: [],
   storage: null,
+  maxEntities: maxEntities || 0,
+  lru: new Set(),
+  referrers: new Map(),
 });
 
 /** Adds a node value to a NodeMap (taking optimistic values into account */
@@ -360,8 +382,11 @@ export const gc = () => {
 
     // Delete the reference count, and delete the entity from the GC batch
     delete currentData!.refCount[entityKey];
+    currentData!.lru.delete(entityKey);
+    currentData!.referrers.delete(entityKey);
     batch.delete(entityKey);
     currentData!.records.base.delete(entityKey);
+    currentData!.timestamps.base.delete(entityKey);
     const linkNode = currentData!.links.base.get(entityKey);
     if (linkNode) {
       currentData!.links.base.delete(entityKey);
@@ -388,13 +413,92 @@ const updatePersist = (entityKey: string, fieldKey: string) => {
   }
 };
 
+/** Marks an entity as the most recently used one when a cache size limit is set */
+const updateLRU = (entityKey: string) => {
+  if (currentData!.maxEntities && entityKey !== currentData!.queryRootKey) {
+    // Sets are ordered by insertion, so re-adding the key moves it to the end
+    currentData!.lru.delete(entityKey);
+    currentData!.lru.add(entityKey);
+  }
+};
+
+/** Records which entities a link points to, so that evicting them doesn't require scanning all links */
+const updateReferrers = (entityKey: string, fieldKey: string, link: Link) => {
+  const { maxEntities, referrers } = currentData!;
+  if (!maxEntities) return;
+  const linkKey = serializeKeys(entityKey, fieldKey);
+  const keys = Array.isArray(link) ? link : [link];
+  for (let i = 0, l = keys.length; i < l; i++) {
+    const key = keys[i];
+    if (key) {
+      const set = referrers.get(key);
+      if (set) {
+        set.add(linkKey);
+      } else {
+        referrers.set(key, new Set([linkKey]));
+      }
+    }
+  }
+};
+
+/** Returns whether a link on any layer still points to the given entity */
+const isLinkedTo = (entityKey: string, fieldKey: string, key: string) => {
+  const { links, optimisticOrder } = currentData!;
+  const hasKey = (node: Dict<Link | undefined> | undefined) => {
+    const link = node && node[fieldKey];
+    return Array.isArray(link) ? link.indexOf(key) > -1 : link === key;
+  };
+
+  if (hasKey(links.base.get(entityKey))) return true;
+  for (let i = 0, l = optimisticOrder.length; i < l; i++) {
+    const optimistic = links.optimistic[optimisticOrder[i]];
+    if (optimistic && hasKey(optimistic.get(entityKey))) return true;
+  }
+
+  return false;
+};
+
+/** Removes a link from the referrers of entities that it doesn't point to anymore */
+const pruneReferrers = (
+  entityKey: string,
+  fieldKey: string,
+  prevLink: Link
+) => {
+  const { maxEntities, referrers } = currentData!;
+  if (!maxEntities) return;
+  const linkKey = serializeKeys(entityKey, fieldKey);
+  const keys = Array.isArray(prevLink) ? prevLink : [prevLink];
+  for (let i = 0, l = keys.length; i < l; i++) {
+    const key = keys[i];
+    const set = key && referrers.get(key);
+    if (key && set && !isLinkedTo(entityKey, fieldKey, key)) {
+      set.delete(linkKey);
+      if (!set.size) referrers.delete(key);
+    }
+  }
+};
+
+/** Updates the time at which an entity's field has last been written to data */
+const updateTimestamp = (entityKey: string, fieldKey: string, value: any) => {
+  if (currentData!.expiring) {
+    setNode(
+      currentData!.timestamps,
+      entityKey,
+      fieldKey,
+      value !== undefined ? currentTime : undefined
+    );
+  }
+};
+
 /** Reads an entity's field (a "record") from data */
 export const readRecord = (
   entityKey: string,
   fieldKey: string
 ): EntityField => {
   updateDependencies(entityKey, fieldKey);
-  return getNode(currentData!.records, entityKey, fieldKey);
+  const value = getNode(currentData!.records, entityKey, fieldKey);
+  if (value !== undefined) updateLRU(entityKey);
+  return value;
 };
 
 /** Reads an entity's link from data */
@@ -403,7 +507,9 @@ export const readLink = (
   fieldKey: string
 ): Link | undefined => {
   updateDependencies(entityKey, fieldKey);
-  return getNode(currentData!.links, entityKey, fieldKey);
+  const link = getNode(currentData!.links, entityKey, fieldKey);
+  if (link !== undefined) updateLRU(entityKey);
+  return link;
 };
 
 /** Writes an entity's field (a "record") to data */
@@ -414,6 +520,8 @@ export const writeRecord = (
 ) => {
   updateDependencies(entityKey, fieldKey);
   updatePersist(entityKey, fieldKey);
+  updateTimestamp(entityKey, fieldKey, value);
+  if (value !== undefined) updateLRU(entityKey);
   setNode(currentData!.records, entityKey, fieldKey, value);
 };
 
@@ -421,6 +529,16 @@ export const hasField = (entityKey: string, fieldKey: string): boolean =>
   readRecord(entityKey, fieldKey) !== undefined ||
   readLink(entityKey, fieldKey) !== undefined;
 
+/** Checks whether an entity's field has last been written longer ago than a given time-to-live */
+export const isFieldExpired = (
+  entityKey: string,
+  fieldKey: string,
+  ttl: number
+): boolean => {
+  const timestamp = getNode(currentData!.timestamps, entityKey, fieldKey);
+  return timestamp !== undefined && currentTime - timestamp > ttl;
+};
+
 /** Writes an entity's link to data */
 export const writeLink = (
   entityKey: string,
@@ -454,8 +572,14 @@ export const writeLink = (
   // Update persistence batch and dependencies
   updateDependencies(entityKey, fieldKey);
   updatePersist(entityKey, fieldKey);
+  updateTimestamp(entityKey, fieldKey, link);
+  if (link !== undefined) {
+    updateLRU(entityKey);
+    updateReferrers(entityKey, fieldKey, link);
+  }
   // Update the link
   setNode(data.links, entityKey, fieldKey, link);
+  if (prevLink) pruneReferrers(entityKey, fieldKey, prevLink);
   // First decrease the reference count for the previous link
   updateRCForLink(gc, refCount, prevLink, -1);
   // Then increase the reference count for the new link
@@ -492,6 +616,7 @@ const createLayer = (data: InMemoryData, layerKey: number) => {
     data.refLock[layerKey] = makeDict();
     data.links.optimistic[layerKey] = new Map();
     data.records.optimistic[layerKey] = new Map();
+    data.timestamps.optimistic[layerKey] = new Map();
   }
 };
 
@@ -501,6 +626,7 @@ const clearLayer = (data: InMemoryData, layerKey: number) => {
     delete data.refLock[layerKey];
     delete data.records.optimistic[layerKey];
     delete data.links.optimistic[layerKey];
+    delete data.timestamps.optimistic[layerKey];
   }
 };
 
@@ -537,6 +663,15 @@ const squashLayer = (layerKey: number) => {
     });
   }
 
+  // The fields keep the time at which they've been written to the layer
+  const timestamps = currentData!.timestamps.optimistic[layerKey];
+  if (timestamps) {
+    timestamps.forEach((keyMap, entityKey) => {
+      for (const fieldKey in keyMap)
+        setNode(currentData!.timestamps, entityKey, fieldKey, keyMap[fieldKey]);
+    });
+  }
+
   currentDependencies = previousDependencies;
   deleteLayer(currentData!, layerKey);
 };
@@ -555,28 +690,163 @@ export const inspectFields = (entityKey: string): FieldInfo[] => {
   return fieldInfos;
 };
 
+/** Returns the keys of all links that may point to the given entities */
+const getReferrers = (entityKeys: Set<string>): Set<string> => {
+  const { links, optimisticOrder, maxEntities, referrers } = currentData!;
+  const linkKeys: Set<string> = new Set();
+
+  if (maxEntities) {
+    // The referrers are tracked when a size limit is set, since evictions are frequent
+    entityKeys.forEach(entityKey => {
+      const keys = referrers.get(entityKey);
+      if (keys) keys.forEach(linkKey => linkKeys.add(linkKey));
+    });
+    return linkKeys;
+  }
+
+  const addReferrer = (node: Dict<Link | undefined>, entityKey: string) => {
+    for (const fieldKey in node)
+      linkKeys.add(serializeKeys(entityKey, fieldKey));
+  };
+
+  links.base.forEach(addReferrer);
+  for (let i = 0, l = optimisticOrder.length; i < l; i++) {
+    const optimistic = links.optimistic[optimisticOrder[i]];
+    if (optimistic) optimistic.forEach(addReferrer);
+  }
+
+  return linkKeys;
+};
+
+/**
+ * Removes entities and all links that point to them. Lists that contain the entities are either
+ * filtered, or invalidated as a whole, so that queries that depend on them are refetched.
+ */
+export const evictEntities = (
+  entityKeys: Set<string>,
+  invalidateLists?: boolean
+) => {
+  const { links } = currentData!;
+
+  getReferrers(entityKeys).forEach(linkKey => {
+    const { entityKey, fieldKey } = deserializeKeyInfo(linkKey);
+    if (entityKeys.has(entityKey)) return;
+    const link = getNode(links, entityKey, fieldKey);
+    if (typeof link === 'string') {
+      if (entityKeys.has(link)) writeLink(entityKey, fieldKey, undefined);
+    } else if (Array.isArray(link)) {
+      const newLink = link.filter(x => x === null || !entityKeys.has(x));
+      if (newLink.length !== link.length)
+        writeLink(entityKey, fieldKey, invalidateLists ? undefined : newLink);
+    }
+  });
+
+  // Then remove all fields of the evicted entities themselves
+  entityKeys.forEach(entityKey => {
+    const fieldInfos = inspectFields(entityKey);
+    for (let i = 0, l = fieldInfos.length; i < l; i++) {
+      const { fieldKey } = fieldInfos[i];
+      if (getNode(links, entityKey, fieldKey) !== undefined) {
+        writeLink(entityKey, fieldKey, undefined);
+      } else {
+        writeRecord(entityKey, fieldKey, undefined);
+      }
+    }
+
+    currentData!.lru.delete(entityKey);
+    currentData!.referrers.delete(entityKey);
+  });
+};
+
+/** Evicts the least recently used entities when there are more than `maxEntities` of them */
+export const evictLRU = () => {
+  const { lru, maxEntities } = currentData!;
+  let excess = lru.size - maxEntities;
+  if (maxEntities && excess > 0) {
+    const entityKeys: Set<string> = new Set();
+    // Entities that the current operation depends on are kept, even if that exceeds the limit
+    lru.forEach(entityKey => {
+      if (excess > 0 && !currentDependencies![entityKey]) {
+        entityKeys.add(entityKey);
+        excess--;
+      }
+    });
+
+    // Shortened lists would be treated as complete, so they're invalidated instead
+    if (entityKeys.size) evictEntities(entityKeys, true);
+  }
+};
+
 export const persistData = () => {
   if (currentData!.storage) {
     currentIgnoreOptimistic = true;
     const entries: SerializedEntries = makeDict();
     currentData!.persist.forEach(key => {
       const { entityKey, fieldKey } = deserializeKeyInfo(key);
+      // Values are prefixed with the time they've been written at, if they can expire
+      const timestamp = getNode(currentData!.timestamps, entityKey, fieldKey);
+      const prefix = timestamp !== undefined ? `${timestamp}|` : '';
       let x: void | Link | EntityField;
       if ((x = readLink(entityKey, fieldKey)) !== undefined) {
-        entries[key] = `:${stringifyVariables(x)}`;
+        entries[key] = `${prefix}:${stringifyVariables(x)}`;
       } else if ((x = readRecord(entityKey, fieldKey)) !== undefined) {
-        entries[key] = stringifyVariables(x);
+        entries[key] = prefix + stringifyVariables(x);
       } else {
         entries[key] = undefined;
       }
     });
 
     currentIgnoreOptimistic = false;
-    currentData!.storage.writeData(entries);
+    Promise.resolve(currentData!.storage.writeData(entries)).then(
+      undefined,
+      (error: Error) => {
+        if (process.env.NODE_ENV !== 'production') {
+          warn(
+            'Persisting data failed: ' +
+              error.message +
+              '\nThe persisted data is out of date until the next write succeeds.',
+            29
+          );
+        }
+      }
+    );
     currentData!.persist.clear();
   }
 };
 
+/** Copies all non-optimistic records and links into a snapshot */
+export const extractData = (data: InMemoryData): StoreSnapshot => {
+  const snapshot: StoreSnapshot = { records: {}, links: {} };
+
+  data.records.base.forEach((node, entityKey) => {
+    if (!isDictEmpty(node)) snapshot.records[entityKey] = { ...node };
+  });
+
+  data.links.base.forEach((node, entityKey) => {
+    if (!isDictEmpty(node)) snapshot.links[entityKey] = { ...node };
+  });
+
+  return snapshot;
+};
+
+/** Writes the records and links of a snapshot to the non-optimistic data */
+export const restoreData = (data: InMemoryData, snapshot: StoreSnapshot) => {
+  initDataState('write', data, null);
+
+  for (const entityKey in snapshot.records) {
+    const node = snapshot.records[entityKey];
+    for (const fieldKey in node)
+      writeRecord(entityKey, fieldKey, node[fieldKey]);
+  }
+
+  for (const entityKey in snapshot.links) {
+    const node = snapshot.links[entityKey];
+    for (const fieldKey in node) writeLink(entityKey, fieldKey, node[fieldKey]);
+  }
+
+  clearDataState();
+};
+
 export const hydrateData = (
   data: InMemoryData,
   storage: StorageAdapter,
@@ -585,14 +855,20 @@ export const hydrateData = (
   initDataState('read', data, null);
 
   for (const key in entries) {
-    const value = entries[key];
+    let value = entries[key];
     if (value !== undefined) {
       const { entityKey, fieldKey } = deserializeKeyInfo(key);
+      // Values that have been persisted with a timestamp keep it, so that they may still expire
+      const match = /^(\d+)\|/.exec(value);
+      if (match) value = value.slice(match[0].length);
       if (value[0] === ':') {
         writeLink(entityKey, fieldKey, JSON.parse(value.slice(1)));
       } else {
         writeRecord(entityKey, fieldKey, JSON.parse(value));
       }
+
+      if (match && data.expiring)
+        setNode(data.timestamps, entityKey, fieldKey, +match[1]);
     }
   }
 
@@ -1,5 +1,6 @@
 import gql from 'graphql-tag';
 import { mocked } from 'ts-jest/utils';
+import { TypedDocumentNode } from '@urql/core';
 import { Data, StorageAdapter } from '../types';
 import { query } from '../operations/query';
 import { write, writeOptimistic } from '../operations/write';
@@ -575,6 +576,85 @@ describe('Store with OptimisticMutationConfig', () => {
     InMemoryData.clearDataState();
   });
 
+  it('should infer results from typed documents when reading a query', () => {
+    const TypedTodos: TypedDocumentNode<
+      { todos: Array<{ id: string; text: string }> },
+      {}
+    > = Todos;
+
+    InMemoryData.initDataState('read', store.data, null);
+    const result = (store as Store).readQuery({ query: TypedTodos });
+    InMemoryData.clearDataState();
+
+    const ids: string[] = result!.todos.map(todo => todo.id);
+    // @ts-expect-error
+    const invalid: number[] = result!.todos.map(todo => todo.id);
+    expect(ids).toEqual(['0', '1', '2']);
+    expect(invalid).toEqual(ids);
+  });
+
+  it('should infer results and variables from typed documents when updating a query', () => {
+    const TypedAppointment: TypedDocumentNode<
+      { appointment: { __typename: string; id: string; info: string } },
+      { id: string }
+    > = Appointment;
+
+    InMemoryData.initDataState('write', store.data, null);
+    (store as Store).updateQuery(
+      { query: TypedAppointment, variables: { id: '1' } },
+      data => {
+        // @ts-expect-error
+        const invalid: number | undefined = data?.appointment.info;
+        expect(invalid).toBe(undefined);
+        return {
+          appointment: { __typename: 'Appointment', id: '1', info: 'typed' },
+        };
+      }
+    );
+
+    (store as Store).updateQuery(
+      // @ts-expect-error
+      { query: TypedAppointment, variables: { id: 1 } },
+      data => data
+    );
+    InMemoryData.clearDataState();
+
+    InMemoryData.initDataState('read', store.data, null);
+    const result = (store as Store).readQuery({
+      query: TypedAppointment,
+      variables: { id: '1' },
+    });
+    InMemoryData.clearDataState();
+
+    const info: string = result!.appointment.info;
+    expect(info).toBe('typed');
+  });
+
+  it('should infer results from typed documents when reading a fragment', () => {
+    const TypedTodoFragment: TypedDocumentNode<
+      { id: string; text: string },
+      {}
+    > = gql`
+      fragment _ on Todo {
+        id
+        text
+      }
+    `;
+
+    InMemoryData.initDataState('read', store.data, null);
+    const result = (store as Store).readFragment(TypedTodoFragment, {
+      id: '0',
+      __typename: 'Todo',
+    });
+    InMemoryData.clearDataState();
+
+    const text: string = result!.text;
+    // @ts-expect-error
+    const invalid: number = result!.text;
+    expect(text).toBe('Go to the shops');
+    expect(invalid).toBe(text);
+  });
+
   it('should be able to optimistically mutate', () => {
     const { dependencies } = writeOptimistic(
       store,
@@ -634,6 +714,291 @@ describe('Store with OptimisticMutationConfig', () => {
       expect(data).toBe(null);
     });
   });
+
+  describe('Evicting an entity', () => {
+    it('removes the entity and its links from lists', () => {
+      store.evict(todosData.todos[1]);
+      expect(store.resolve('Todo:1', 'text')).toBe(null);
+      expect(store.inspectFields('Todo:1')).toEqual([]);
+
+      const { data } = query(store, { query: Todos });
+      expect(data).toEqual({
+        __typename: 'Query',
+        todos: [todosData.todos[0], todosData.todos[2]],
+      });
+    });
+
+    it('removes links to the entity from other entities', () => {
+      store.evict('Author:0');
+      expect(store.resolve('Todo:0', 'author')).toBe(null);
+      expect(store.resolve('Todo:1', 'author')).toBe('Author:1');
+      expect(InMemoryData.getCurrentDependencies()).toMatchObject({
+        'Author:0': true,
+        'Todo:0': true,
+        'Todo:2': true,
+      });
+    });
+
+    it('throws when no key can be generated', () => {
+      expect(() => store.evict({ __typename: 'Todo' })).toThrow(
+        /Can't generate a key for evict/
+      );
+    });
+  });
+});
+
+describe('Store link and writeField', () => {
+  let store;
+
+  beforeEach(() => {
+    store = new Store();
+    write(store, { query: Todos }, todosData);
+    InMemoryData.initDataState('write', store.data, null);
+  });
+
+  afterEach(() => {
+    InMemoryData.clearDataState();
+  });
+
+  it('links fields to entities, entity keys, and lists', () => {
+    store.link('Query', 'todos', [todosData.todos[2], 'Todo:0', null]);
+    store.link({ __typename: 'Todo', id: '0' }, 'author', 'Author:1');
+    store.link('Query', 'todo', { id: '1' }, { __typename: 'Todo', id: '1' });
+
+    expect(store.resolve('Query', 'todos')).toEqual(['Todo:2', 'Todo:0', null]);
+    expect(store.resolve('Todo:0', 'author')).toBe('Author:1');
+    expect(store.resolve('Query', 'todo', { id: '1' })).toBe('Todo:1');
+    expect(InMemoryData.getCurrentDependencies()).toMatchObject({
+      'Query.todos': true,
+      'Query.todo({"id":"1"})': true,
+      'Todo:0': true,
+    });
+  });
+
+  it('updates reference counts so unlinked entities are garbage collected', () => {
+    store.link('Query', 'todos', ['Todo:0', 'Todo:2']);
+    InMemoryData.gc();
+
+    expect(store.inspectFields('Todo:1')).toEqual([]);
+    expect(store.resolve('Todo:0', 'text')).toBe('Go to the shops');
+  });
+
+  it('writes scalar values to fields', () => {
+    store.writeField('Todo:0', 'complete', true);
+    store.writeField(todosData.todos[1], 'text', { lang: 'en' }, 'Kids');
+
+    expect(store.resolve('Todo:0', 'complete')).toBe(true);
+    expect(store.resolve('Todo:1', 'text', { lang: 'en' })).toBe('Kids');
+    expect(InMemoryData.getCurrentDependencies()).toMatchObject({
+      'Todo:0': true,
+      'Todo:1': true,
+    });
+  });
+
+  it('throws when no key can be generated', () => {
+    expect(() => store.writeField({ __typename: 'Todo' }, 'text', '')).toThrow(
+      /Can't generate a key for link/
+    );
+    expect(() =>
+      store.link('Query', 'todos', [{ __typename: 'Todo' }])
+    ).toThrow(/Can't generate a key for link/);
+  });
+
+  it('warns about fields that are missing from the schema', () => {
+    store = new Store({
+      schema: require('../test-utils/simple_schema.json'),
+    });
+    InMemoryData.initDataState('write', store.data, null);
+
+    store.writeField({ __typename: 'Todo', id: '0' }, 'text', 'Teach');
+    expect(console.warn).not.toHaveBeenCalled();
+
+    store.link('Query', 'unknown', null);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+    expect((console.warn as any).mock.calls[0][0]).toMatch(
+      /The field `unknown` does not exist on `Query`/
+    );
+  });
+});
+
+describe('Store snapshots', () => {
+  it('extracts records and links', () => {
+    const store = new Store();
+    write(
+      store,
+      { query: Appointment, variables: { id: '1' } },
+      {
+        __typename: 'Query',
+        appointment: {
+          __typename: 'Appointment',
+          id: '1',
+          info: 'urql meeting',
+        },
+      }
+    );
+
+    expect(store.extract()).toEqual({
+      records: {
+        'Appointment:1': {
+          __typename: 'Appointment',
+          id: '1',
+          info: 'urql meeting',
+        },
+      },
+      links: {
+        Query: { 'appointment({"id":"1"})': 'Appointment:1' },
+      },
+    });
+  });
+
+  it('excludes optimistic updates', () => {
+    const store = new Store({
+      optimistic: {
+        addTodo: variables => ({ ...variables } as Data),
+      },
+    });
+
+    write(store, { query: Todos }, todosData);
+    const snapshot = store.extract();
+
+    writeOptimistic(
+      store,
+      {
+        query: gql`
+          mutation {
+            addTodo(id: "1", text: "Optimistic", __typename: "Todo") {
+              id
+              text
+              __typename
+            }
+          }
+        `,
+      },
+      1
+    );
+
+    expect(store.extract()).toEqual(snapshot);
+  });
+
+  it('restores snapshots into another store', () => {
+    const store = new Store();
+    write(store, { query: Todos }, todosData);
+    const snapshot = JSON.parse(JSON.stringify(store.extract()));
+
+    const restored = new Store();
+    restored.restore(snapshot);
+    expect(restored.extract()).toEqual(snapshot);
+    expect(query(restored, { query: Todos }).data).toEqual(todosData);
+  });
+});
+
+describe('Store with maxEntities', () => {
+  const appointment = (id: string) => ({
+    __typename: 'Query',
+    appointment: { __typename: 'Appointment', id, info: `Meeting ${id}` },
+  });
+
+  it('evicts the least recently used entities after writes', () => {
+    const store = new Store({ maxEntities: 2 });
+    write(
+      store,
+      { query: Appointment, variables: { id: '1' } },
+      appointment('1')
+    );
+    write(
+      store,
+      { query: Appointment, variables: { id: '2' } },
+      appointment('2')
+    );
+
+    // Reading the first appointment marks it as recently used
+    query(store, { query: Appointment, variables: { id: '1' } });
+
+    const { dependencies } = write(
+      store,
+      { query: Appointment, variables: { id: '3' } },
+      appointment('3')
+    );
+
+    expect(dependencies).toMatchObject({
+      'Appointment:2': true,
+      'Query.appointment({"id":"2"})': true,
+    });
+
+    expect(
+      query(store, { query: Appointment, variables: { id: '2' } }).data
+    ).toBe(null);
+    expect(
+      query(store, { query: Appointment, variables: { id: '1' } }).data
+    ).toEqual(appointment('1'));
+    expect(
+      query(store, { query: Appointment, variables: { id: '3' } }).data
+    ).toEqual(appointment('3'));
+  });
+
+  it('invalidates lists that contain evicted entities', () => {
+    const store = new Store({ maxEntities: 3 });
+    const author = { __typename: 'Author', id: '1', name: 'Author' };
+    write(
+      store,
+      { query: Todos },
+      {
+        __typename: 'Query',
+        todos: [
+          { __typename: 'Todo', id: '1', text: 'Go', complete: false, author },
+          { __typename: 'Todo', id: '2', text: 'Stop', complete: true, author },
+        ],
+      }
+    );
+
+    expect(query(store, { query: Todos }).data).not.toBe(null);
+
+    const { dependencies } = write(
+      store,
+      { query: Appointment, variables: { id: '1' } },
+      appointment('1')
+    );
+
+    expect(store.data.lru.has('Todo:1')).toBe(false);
+    expect(dependencies).toMatchObject({ 'Query.todos': true });
+    // The list isn't shortened, which would make it look complete
+    expect(query(store, { query: Todos }).data).toBe(null);
+  });
+
+  it('keeps the entities of the current write even if they exceed the limit', () => {
+    const store = new Store({ maxEntities: 1 });
+    const author = { __typename: 'Author', id: '1', name: 'Author' };
+    const todosData = {
+      __typename: 'Query',
+      todos: [
+        { __typename: 'Todo', id: '1', text: 'Go', complete: false, author },
+        { __typename: 'Todo', id: '2', text: 'Stop', complete: true, author },
+      ],
+    };
+
+    write(store, { query: Todos }, todosData);
+
+    expect(store.data.lru.size).toBe(3);
+    expect(query(store, { query: Todos }).data).toEqual(todosData);
+  });
+
+  it('does not evict entities without a limit', () => {
+    const store = new Store();
+    write(
+      store,
+      { query: Appointment, variables: { id: '1' } },
+      appointment('1')
+    );
+    write(
+      store,
+      { query: Appointment, variables: { id: '2' } },
+      appointment('2')
+    );
+    expect(store.data.lru.size).toBe(0);
+    expect(
+      query(store, { query: Appointment, variables: { id: '1' } }).data
+    ).toEqual(appointment('1'));
+  });
 });
 
 describe('Store with storage', () => {
@@ -743,6 +1108,75 @@ describe('Store with storage', () => {
     expect(data).toEqual(embeddedData);
   });
 
+  it('keeps the time at which rehydrated data has been written with a ttl', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const storage: StorageAdapter = {
+      readData: jest.fn(),
+      writeData: jest.fn(),
+    };
+
+    store = new Store({ ttl: 1000 });
+    store.data.storage = storage;
+    write(store, { query: Appointment, variables: { id: '1' } }, expectedData);
+
+    InMemoryData.initDataState('write', store.data, null);
+    InMemoryData.persistData();
+    InMemoryData.clearDataState();
+
+    const serialisedStore = (storage.writeData as any).mock.calls[0][0];
+    expect(serialisedStore['Appointment:1.info']).toBe('1000|"urql meeting"');
+
+    now.mockReturnValue(5000);
+    store = new Store({ ttl: 1000 });
+    InMemoryData.hydrateData(store.data, storage, serialisedStore);
+
+    const { data } = query(store, {
+      query: Appointment,
+      variables: { id: '1' },
+    });
+
+    expect(data).toBe(null);
+    now.mockRestore();
+  });
+
+  it('warns when persisting data fails', async () => {
+    const storage: StorageAdapter = {
+      readData: jest.fn(),
+      writeData: jest.fn(() => Promise.reject(new Error('Disk full'))),
+    };
+
+    store.data.storage = storage;
+    write(store, { query: Appointment, variables: { id: '1' } }, expectedData);
+
+    InMemoryData.initDataState('write', store.data, null);
+    InMemoryData.persistData();
+    InMemoryData.clearDataState();
+
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(console.warn).toHaveBeenCalledTimes(1);
+    expect((console.warn as any).mock.calls[0][0]).toMatch(
+      /Persisting data failed: Disk full/
+    );
+  });
+
+  it('rehydrates data that has been persisted without timestamps', () => {
+    const storage: StorageAdapter = {
+      readData: jest.fn(),
+      writeData: jest.fn(),
+    };
+
+    InMemoryData.hydrateData(store.data, storage, {
+      'Query.base': 'true',
+      'Query.link': ':"Appointment:1"',
+    });
+
+    InMemoryData.initDataState('read', store.data, null);
+    expect(InMemoryData.readRecord('Query', 'base')).toBe(true);
+    expect(InMemoryData.readLink('Query', 'link')).toBe('Appointment:1');
+    InMemoryData.clearDataState();
+  });
+
   it('persists commutative layers and ignores optimistic layers', () => {
     const storage: StorageAdapter = {
       readData: jest.fn(),
@@ -4,7 +4,7 @@ import {
   IntrospectionQuery,
   GraphQLSchema,
 } from 'graphql';
-import { createRequest } from '@urql/core';
+import { createRequest, TypedDocumentNode } from '@urql/core';
 
 import {
   Cache,
@@ -13,11 +13,14 @@ import {
   DataField,
   Variables,
   Data,
+  Link,
+  EntityField,
   QueryInput,
   UpdatesConfig,
   OptimisticMutationConfig,
   KeyingConfig,
-  DataFields,
+  TTLConfig,
+  StoreSnapshot,
 } from '../types';
 import { invariant } from '../helpers/help';
 
@@ -30,11 +33,18 @@ import * as SchemaPredicates from '../ast/schemaPredicates';
 
 type RootField = 'query' | 'mutation' | 'subscription';
 
+const linkError =
+  "Can't generate a key for link(...) or writeField(...).\n" +
+  'You need to pass in a valid key (__typename:id) or an object with ' +
+  'the "__typename" property and an "id" or "_id" property.';
+
 export interface StoreOpts {
   updates?: Partial<UpdatesConfig>;
   resolvers?: ResolverConfig;
   optimistic?: OptimisticMutationConfig;
   keys?: KeyingConfig;
+  ttl?: number | TTLConfig;
+  maxEntities?: number;
   schema?: IntrospectionQuery;
 }
 
@@ -45,6 +55,7 @@ export class Store implements Cache {
   updates: UpdatesConfig;
   optimisticMutations: OptimisticMutationConfig;
   keys: KeyingConfig;
+  ttl: TTLConfig;
   schema?: GraphQLSchema;
 
   rootFields: { query: string; mutation: string; subscription: string };
@@ -56,6 +67,8 @@ export class Store implements Cache {
     this.resolvers = opts.resolvers || {};
     this.optimisticMutations = opts.optimistic || {};
     this.keys = opts.keys || {};
+    this.ttl =
+      typeof opts.ttl === 'number' ? { default: opts.ttl } : opts.ttl || {};
 
     this.updates = {
       Mutation: (opts.updates && opts.updates.Mutation) || {},
@@ -114,7 +127,11 @@ export class Store implements Cache {
       [subscriptionName]: 'subscription',
     };
 
-    this.data = InMemoryData.make(queryName);
+    this.data = InMemoryData.make(
+      queryName,
+      opts.maxEntities,
+      opts.ttl !== undefined
+    );
   }
 
   keyOfField = keyOfField;
@@ -177,6 +194,55 @@ export class Store implements Cache {
     invalidateEntity(entityKey, field, args);
   }
 
+  evict(entity: Data | string) {
+    const entityKey =
+      typeof entity === 'string' ? entity : this.keyOfEntity(entity);
+
+    invariant(
+      entityKey,
+      "Can't generate a key for evict(...).\n" +
+        'You need to pass in a valid key (__typename:id) or an object with ' +
+        'the "__typename" property and an "id" or "_id" property.',
+      26
+    );
+
+    InMemoryData.evictEntities(new Set([entityKey]));
+  }
+
+  link(
+    entity: Data | string,
+    field: string,
+    args: Variables | null | undefined,
+    link: Link<Data | string>
+  ): void;
+  link(entity: Data | string, field: string, link: Link<Data | string>): void;
+  link(entity: Data | string, field: string, ...rest: any[]) {
+    const args = rest.length > 1 ? rest[0] : null;
+    const entityKey = keyOfWrite(this, entity, field);
+    InMemoryData.writeLink(
+      entityKey,
+      keyOfField(field, args),
+      keyOfLink(this, rest[rest.length - 1])
+    );
+  }
+
+  writeField(
+    entity: Data | string,
+    field: string,
+    args: Variables | null | undefined,
+    value: EntityField
+  ): void;
+  writeField(entity: Data | string, field: string, value: EntityField): void;
+  writeField(entity: Data | string, field: string, ...rest: any[]) {
+    const args = rest.length > 1 ? rest[0] : null;
+    const entityKey = keyOfWrite(this, entity, field);
+    InMemoryData.writeRecord(
+      entityKey,
+      keyOfField(field, args),
+      rest[rest.length - 1]
+    );
+  }
+
   inspectFields(entity: Data | string | null): FieldInfo[] {
     const entityKey =
       entity !== null && typeof entity !== 'string'
@@ -186,34 +252,95 @@ export class Store implements Cache {
     return entityKey !== null ? InMemoryData.inspectFields(entityKey) : [];
   }
 
-  updateQuery(
-    input: QueryInput,
-    updater: (data: Data | null) => DataFields | null
+  /** Extracts a snapshot of all records and links, excluding optimistic updates */
+  extract(): StoreSnapshot {
+    return InMemoryData.extractData(this.data);
+  }
+
+  /** Writes all records and links of a snapshot to the store */
+  restore(snapshot: StoreSnapshot) {
+    InMemoryData.restoreData(this.data, snapshot);
+  }
+
+  updateQuery<T = Data, V extends object = Variables>(
+    input: QueryInput<T, V>,
+    updater: (data: T | null) => T | null
   ): void {
     const request = createRequest(input.query, input.variables);
-    const output = updater(this.readQuery(request as QueryInput));
+    const output = updater(this.readQuery(request));
     if (output !== null) {
-      startWrite(this, request, output as Data);
+      startWrite(this, request, (output as unknown) as Data);
     }
   }
 
-  readQuery(input: QueryInput): Data | null {
-    return read(this, createRequest(input.query, input.variables)).data;
+  readQuery<T = Data, V extends object = Variables>(
+    input: QueryInput<T, V>
+  ): T | null {
+    const request = createRequest(input.query, input.variables);
+    return (read(this, request).data as unknown) as T | null;
   }
 
-  readFragment(
-    dataFragment: DocumentNode,
+  readFragment<T = Data, V extends object = Variables>(
+    dataFragment: DocumentNode | TypedDocumentNode<T, V>,
     entity: string | Data,
-    variables?: Variables
-  ): Data | null {
-    return readFragment(this, dataFragment, entity, variables);
+    variables?: V
+  ): T | null {
+    return (readFragment(
+      this,
+      dataFragment,
+      entity,
+      variables as Variables | undefined
+    ) as unknown) as T | null;
   }
 
-  writeFragment(
-    dataFragment: DocumentNode,
-    data: Data,
-    variables?: Variables
+  writeFragment<T = Data, V extends object = Variables>(
+    dataFragment: DocumentNode | TypedDocumentNode<T, V>,
+    data: T,
+    variables?: V
   ): void {
-    writeFragment(this, dataFragment, data, variables);
+    writeFragment(
+      this,
+      dataFragment,
+      (data as unknown) as Data,
+      variables as Variables | undefined
+    );
   }
 }
+
+/** Returns the key of an entity that's written to and checks the field against the schema */
+const keyOfWrite = (
+  store: Store,
+  entity: Data | string,
+  field: string
+): string => {
+  const entityKey =
+    typeof entity === 'string' ? entity : store.keyOfEntity(entity);
+  invariant(entityKey, linkError, 28);
+
+  if (process.env.NODE_ENV !== 'production' && store.schema) {
+    const typename =
+      typeof entity !== 'string'
+        ? entity.__typename
+        : store.rootNames[entityKey] !== undefined
+        ? entityKey
+        : InMemoryData.readRecord(entityKey, '__typename');
+    if (typeof typename === 'string') {
+      SchemaPredicates.isFieldAvailableOnType(store.schema, typename, field);
+    }
+  }
+
+  return entityKey;
+};
+
+/** Converts the entities in a link to their keys */
+const keyOfLink = (store: Store, link: Link<Data | string>): Link => {
+  if (Array.isArray(link)) {
+    return link.map(item => keyOfLink(store, item) as string | null);
+  } else if (link === null || typeof link === 'string') {
+    return link;
+  }
+
+  const entityKey = store.keyOfEntity(link);
+  invariant(entityKey, linkError, 28);
+  return entityKey;
+};
@@ -1,4 +1,5 @@
 import { DocumentNode, FragmentDefinitionNode } from 'graphql';
+import { TypedDocumentNode, CombinedError } from '@urql/core';
 
 // Helper types
 export type NullArray<T> = Array<null | T>;
@@ -67,9 +68,9 @@ export interface ResolveInfo {
   optimistic?: boolean;
 }
 
-export interface QueryInput {
-  query: string | DocumentNode;
-  variables?: Variables;
+export interface QueryInput<T = Data, V = Variables> {
+  query: string | DocumentNode | TypedDocumentNode<T, V>;
+  variables?: V;
 }
 
 export interface Cache {
@@ -98,27 +99,58 @@ export interface Cache {
   /** invalidate() invalidates an entity or a specific field of an entity */
   invalidate(entity: Data | string, fieldName?: string, args?: Variables): void;
 
+  /** evict() removes an entity and all links pointing to it from the cache */
+  evict(entity: Data | string): void;
+
+  /** link() writes a link from an entity's field to another entity, a list of entities, or null */
+  link(
+    entity: Data | string,
+    fieldName: string,
+    args: Variables | null | undefined,
+    link: Link<Data | string>
+  ): void;
+  link(
+    entity: Data | string,
+    fieldName: string,
+    link: Link<Data | string>
+  ): void;
+
+  /** writeField() writes a scalar value to an entity's field */
+  writeField(
+    entity: Data | string,
+    fieldName: string,
+    args: Variables | null | undefined,
+    value: EntityField
+  ): void;
+  writeField(
+    entity: Data | string,
+    fieldName: string,
+    value: EntityField
+  ): void;
+
   /** updateQuery() can be used to update the data of a given query using an updater function */
-  updateQuery(
-    input: QueryInput,
-    updater: (data: Data | null) => Data | null
+  updateQuery<T = Data, V extends object = Variables>(
+    input: QueryInput<T, V>,
+    updater: (data: T | null) => T | null
   ): void;
 
   /** readQuery() retrieves the data for a given query */
-  readQuery(input: QueryInput): Data | null;
+  readQuery<T = Data, V extends object = Variables>(
+    input: QueryInput<T, V>
+  ): T | null;
 
   /** readFragment() retrieves the data for a given fragment, given a partial/keyable entity or an entity key */
-  readFragment(
-    fragment: DocumentNode,
+  readFragment<T = Data, V extends object = Variables>(
+    fragment: DocumentNode | TypedDocumentNode<T, V>,
     entity: string | Data,
-    variables?: Variables
-  ): Data | null;
+    variables?: V
+  ): T | null;
 
   /** writeFragment() can be used to update the data of a given fragment, given an entity that is supposed to be written using the fragment */
-  writeFragment(
-    fragment: DocumentNode,
-    data: Data,
-    variables?: Variables
+  writeFragment<T = Data, V extends object = Variables>(
+    fragment: DocumentNode | TypedDocumentNode<T, V>,
+    data: T,
+    variables?: V
   ): void;
 }
 
@@ -168,12 +200,27 @@ export interface KeyingConfig {
   [typename: string]: KeyGenerator;
 }
 
+export interface TTLConfig {
+  /** The default time-to-live in milliseconds for all cached fields */
+  default?: number;
+  /** The time-to-live in milliseconds for the fields of specific types */
+  types?: {
+    [typename: string]: number;
+  };
+}
+
 export type SerializedEntry = EntityField | Connection[] | Link;
 
 export interface SerializedEntries {
   [key: string]: string | undefined;
 }
 
+/** A JSON-compatible snapshot of the cache's non-optimistic records and links */
+export interface StoreSnapshot {
+  records: { [entityKey: string]: { [fieldKey: string]: EntityField } };
+  links: { [entityKey: string]: { [fieldKey: string]: Link } };
+}
+
 export interface SerializedRequest {
   query: string;
   variables?: object;
@@ -187,6 +234,43 @@ export interface StorageAdapter {
   onOnline?(cb: () => void): any;
 }
 
+/** A mutation that has failed while offline and is waiting to be replayed */
+export interface QueuedMutation {
+  id: number;
+  key: number;
+  query: DocumentNode;
+  variables?: Variables;
+}
+
+export interface OfflineQueue {
+  /** Returns all queued mutations in the order they'll be replayed in */
+  list(): QueuedMutation[];
+  /** Removes a queued mutation and reverts its optimistic update */
+  remove(id: number): void;
+  /** Starts replaying the queued mutations immediately */
+  retry(): void;
+  /** Calls the listener with the queued mutations whenever the queue changes */
+  subscribe(listener: (mutations: QueuedMutation[]) => void): () => void;
+}
+
+export type ConflictResolver = (
+  error: CombinedError,
+  mutation: QueuedMutation
+) => Variables | void;
+
+export interface ConflictConfig {
+  [mutationFieldName: string]: ConflictResolver;
+}
+
+export type ReplayErrorHandler = (
+  error: CombinedError,
+  mutation: QueuedMutation
+) => void;
+
+export interface ReplayErrorConfig {
+  [mutationFieldName: string]: ReplayErrorHandler;
+}
+
 export type Dependencies = Record<string, true>;
 
 /** The type of cache operation being executed. */
@@ -9,11 +9,12 @@ import {
   pipe,
   Source,
   subscribe,
+  take,
   toPromise,
 } from 'wonka';
 
 import { print } from 'graphql';
-import { Client, OperationResult } from '@urql/core';
+import { Client, OperationResult, formatDocument } from '@urql/core';
 
 import { queryOperation, mutationOperation } from './test-utils';
 import { hash } from './sha256';
@@ -235,3 +236,114 @@ it('supports a custom hash function', async () => {
 `;
   expect(hashFn).toBeCalledWith(queryString, queryOperation.query);
 });
+
+it('persists mutations when enableForMutation is set', async () => {
+  fetch.mockResolvedValueOnce({
+    json: () => ({ data: { addUser: { name: 'Clara' } } }),
+  });
+
+  await pipe(
+    fromValue(mutationOperation),
+    persistedFetchExchange({
+      enableForMutation: true,
+      preferGetForPersistedQueries: true,
+    })(exchangeArgs),
+    toPromise
+  );
+
+  expect(fetch).toHaveBeenCalledTimes(1);
+  expect(fetch.mock.calls[0][1].method).toBe('POST');
+
+  const body = JSON.parse(fetch.mock.calls[0][1].body);
+  expect(body.query).toBeUndefined();
+  expect(body.extensions.persistedQuery.sha256Hash).toEqual(
+    await hash(print(mutationOperation.query))
+  );
+});
+
+describe('with a manifest', () => {
+  const manifest = {
+    [print(queryOperation.query)]: 'query-id',
+    [print(mutationOperation.query)]: 'mutation-id',
+  };
+
+  beforeEach(() => {
+    fetch.mockReset();
+  });
+
+  it('sends the ids of queries and mutations from the manifest', async () => {
+    fetch
+      .mockResolvedValueOnce({ json: () => ({ data: { test: true } }) })
+      .mockResolvedValueOnce({ json: () => ({ data: { test: true } }) });
+
+    await pipe(
+      fromArray([queryOperation, mutationOperation]),
+      persistedFetchExchange({ manifest })(exchangeArgs),
+      take(2),
+      toPromise
+    );
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    const queryBody = JSON.parse(fetch.mock.calls[0][1].body);
+    expect(queryBody.query).toBeUndefined();
+    expect(queryBody.extensions.persistedQuery.sha256Hash).toBe('query-id');
+
+    const mutationBody = JSON.parse(fetch.mock.calls[1][1].body);
+    expect(mutationBody.query).toBeUndefined();
+    expect(mutationBody.extensions.persistedQuery.sha256Hash).toBe(
+      'mutation-id'
+    );
+  });
+
+  it('looks up documents after they have been formatted', async () => {
+    fetch.mockResolvedValueOnce({ json: () => ({ data: { test: true } }) });
+
+    const formattedOperation = {
+      ...queryOperation,
+      query: formatDocument(queryOperation.query),
+    };
+
+    await pipe(
+      fromValue(formattedOperation),
+      persistedFetchExchange({
+        manifest: { [print(formattedOperation.query)]: 'formatted-id' },
+      })(exchangeArgs),
+      toPromise
+    );
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    const body = JSON.parse(fetch.mock.calls[0][1].body);
+    expect(body.extensions.persistedQuery.sha256Hash).toBe('formatted-id');
+  });
+
+  it('returns an error for documents that are missing from it', async () => {
+    const actual = await pipe(
+      fromValue(queryOperation),
+      persistedFetchExchange({ manifest: {} })(exchangeArgs),
+      toPromise
+    );
+
+    expect(fetch).toHaveBeenCalledTimes(0);
+    expect(actual.error!.networkError!.message).toMatchInlineSnapshot(
+      `"The \\"getUser\\" operation is missing from the persisted query manifest."`
+    );
+  });
+
+  it('does not send the query text after a persisted query miss', async () => {
+    fetch.mockResolvedValueOnce({
+      json: () => ({ errors: [{ message: 'PersistedQueryNotFound' }] }),
+    });
+
+    const actual = await pipe(
+      fromValue(queryOperation),
+      persistedFetchExchange({ manifest: () => 'query-id' })(exchangeArgs),
+      toPromise
+    );
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(actual.error!.graphQLErrors[0].message).toBe(
+      'PersistedQueryNotFound'
+    );
+  });
+});
@@ -18,6 +18,7 @@ import {
   Exchange,
   Operation,
   OperationResult,
+  makeErrorResult,
 } from '@urql/core';
 
 import {
@@ -31,9 +32,21 @@ import { DocumentNode } from 'graphql';
 
 import { hash } from './sha256';
 
+/**
+ * A precomputed map of printed documents to their ids, or a function returning a document's id.
+ * The documents are looked up as they're sent, after `formatDocument` has added `__typename` fields.
+ */
+export type PersistedQueryManifest =
+  | Record<string, string>
+  | ((query: string, document: DocumentNode) => string | undefined);
+
 interface PersistedFetchExchangeOptions {
   preferGetForPersistedQueries?: boolean;
   generateHash?: (query: string, document: DocumentNode) => Promise<string>;
+  /** Persists mutations as well as queries. Mutations are always sent using POST. */
+  enableForMutation?: boolean;
+  /** Only ever sends ids from this manifest instead of hashing queries, and never sends any query text. */
+  manifest?: PersistedQueryManifest;
 }
 
 export const persistedFetchExchange = (
@@ -42,13 +55,20 @@ export const persistedFetchExchange = (
   if (!options) options = {};
 
   const hashFn = options.generateHash || hash;
+  const { manifest } = options;
+  // In manifest mode no query text may be sent, so mutations are always persisted
+  const enableForMutation = !!options.enableForMutation || !!manifest;
   let supportsPersistedQueries = true;
 
+  const isPersistedOperation = (operation: Operation) =>
+    operation.operationName === 'query' ||
+    (enableForMutation && operation.operationName === 'mutation');
+
   return ops$ => {
     const sharedOps$ = share(ops$);
     const fetchResults$ = pipe(
       sharedOps$,
-      filter(operation => operation.operationName === 'query'),
+      filter(isPersistedOperation),
       mergeMap(operation => {
         const { key } = operation;
         const teardown$ = pipe(
@@ -57,7 +77,19 @@ export const persistedFetchExchange = (
         );
 
         const body = makeFetchBody(operation);
-        if (!supportsPersistedQueries) {
+        if (manifest) {
+          return pipe(
+            makeManifestFetchSource(
+              operation,
+              body,
+              manifest,
+              dispatchDebug,
+              !!(options as PersistedFetchExchangeOptions)
+                .preferGetForPersistedQueries
+            ),
+            takeUntil(teardown$)
+          );
+        } else if (!supportsPersistedQueries) {
           // Runs the usual non-persisted fetchExchange query logic
           return pipe(
             makePersistedFetchSource(operation, body, dispatchDebug, false),
@@ -121,7 +153,7 @@ export const persistedFetchExchange = (
 
     const forward$ = pipe(
       sharedOps$,
-      filter(operation => operation.operationName !== 'query'),
+      filter(operation => !isPersistedOperation(operation)),
       forward
     );
 
@@ -129,6 +161,41 @@ export const persistedFetchExchange = (
   };
 };
 
+const makeManifestFetchSource = (
+  operation: Operation,
+  body: FetchBody,
+  manifest: PersistedQueryManifest,
+  dispatchDebug: ExchangeInput['dispatchDebug'],
+  useGet: boolean
+): Source<OperationResult> => {
+  const id =
+    typeof manifest === 'function'
+      ? manifest(body.query!, operation.query)
+      : manifest[body.query!];
+
+  if (!id) {
+    // Documents that are missing from the manifest are never sent
+    const error = new Error(
+      `The ${
+        body.operationName ? `"${body.operationName}" ` : ''
+      }operation is missing from the persisted query manifest.`
+    );
+
+    return fromValue(makeErrorResult(operation, error));
+  }
+
+  body.query = undefined;
+  body.extensions = {
+    persistedQuery: {
+      version: 1,
+      sha256Hash: id,
+    },
+  };
+
+  // Misses in manifest mode aren't retried and are returned as errors instead
+  return makePersistedFetchSource(operation, body, dispatchDebug, useGet);
+};
+
 const makePersistedFetchSource = (
   operation: Operation,
   body: FetchBody,
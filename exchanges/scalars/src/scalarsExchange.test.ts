@@ -0,0 +1,340 @@
+import gql from 'graphql-tag';
+import { buildSchema, introspectionFromSchema } from 'graphql';
+import {
+  filter,
+  fromValue,
+  makeSubject,
+  map,
+  pipe,
+  subscribe,
+  toArray,
+} from 'wonka';
+
+import {
+  Client,
+  Operation,
+  OperationResult,
+  ExchangeIO,
+  composeExchanges,
+  createClient,
+  createRequest,
+} from '@urql/core';
+
+import { cacheExchange } from '@urql/exchange-graphcache';
+import { scalarsExchange, ScalarsExchangeOptions } from './scalarsExchange';
+
+const schema = introspectionFromSchema(
+  buildSchema(`
+    scalar DateTime
+    scalar BigInt
+
+    interface Node {
+      id: ID!
+    }
+
+    type Author implements Node {
+      id: ID!
+      name: String
+      birthday: DateTime
+      followers: BigInt
+    }
+
+    type Post implements Node {
+      id: ID!
+      createdAt: DateTime!
+      editedAt: [DateTime]
+      author: Author
+    }
+
+    union SearchResult = Author | Post
+
+    input PostFilter {
+      after: DateTime
+      authorIds: [ID!]
+      or: [PostFilter!]
+    }
+
+    type Query {
+      posts(filter: PostFilter, before: DateTime): [Post!]!
+      node(id: ID!): Node
+      search: [SearchResult!]!
+    }
+
+    type Mutation {
+      createPost(at: DateTime!): Post
+    }
+  `)
+);
+
+const options: ScalarsExchangeOptions = {
+  schema,
+  scalars: {
+    DateTime: {
+      parse: value => new Date(value),
+      serialize: value => value.toISOString(),
+    },
+    BigInt: {
+      parse: value => BigInt(value),
+    },
+  },
+};
+
+const createdAt = '2020-01-01T00:00:00.000Z';
+const editedAt = '2020-02-01T00:00:00.000Z';
+const birthday = '1990-03-01T00:00:00.000Z';
+
+let client: Client;
+beforeEach(() => {
+  client = createClient({ url: 'http://localhost:3000/graphql' });
+});
+
+const run = (operation: Operation, data: any) => {
+  const forwarded: Operation[] = [];
+  const forward: ExchangeIO = ops$ =>
+    pipe(
+      ops$,
+      map(op => {
+        forwarded.push(op);
+        return { operation: op, data } as OperationResult;
+      })
+    );
+
+  const results = pipe(
+    fromValue(operation),
+    scalarsExchange(options)({ forward, client, dispatchDebug: jest.fn() }),
+    toArray
+  );
+
+  return { forwarded, result: results[0] };
+};
+
+it('parses scalars in nested objects, lists and aliased fields', () => {
+  const query = gql`
+    {
+      posts {
+        id
+        created: createdAt
+        editedAt
+        author {
+          name
+          birthday
+          followers
+        }
+      }
+    }
+  `;
+
+  const data = {
+    posts: [
+      {
+        id: '1',
+        created: createdAt,
+        editedAt: [editedAt, null],
+        author: {
+          name: 'Author',
+          birthday,
+          followers: '9007199254740993',
+        },
+      },
+      { id: '2', created: createdAt, editedAt: null, author: null },
+    ],
+  };
+
+  const operation = client.createRequestOperation(
+    'query',
+    createRequest(query)
+  );
+  const { result } = run(operation, data);
+
+  expect(result.data).toEqual({
+    posts: [
+      {
+        id: '1',
+        created: new Date(createdAt),
+        editedAt: [new Date(editedAt), null],
+        author: {
+          name: 'Author',
+          birthday: new Date(birthday),
+          followers: BigInt('9007199254740993'),
+        },
+      },
+      { id: '2', created: new Date(createdAt), editedAt: null, author: null },
+    ],
+  });
+
+  // The original data isn't mutated
+  expect(data.posts[0].created).toBe(createdAt);
+});
+
+it('parses scalars in fragments on abstract types', () => {
+  const query = gql`
+    {
+      search {
+        __typename
+        ... on Post {
+          createdAt
+        }
+        ...AuthorFields
+      }
+      node(id: "1") {
+        __typename
+        id
+        ... on Author {
+          birthday
+        }
+      }
+    }
+
+    fragment AuthorFields on Author {
+      birthday
+    }
+  `;
+
+  const operation = client.createRequestOperation(
+    'query',
+    createRequest(query)
+  );
+  const { result } = run(operation, {
+    search: [
+      { __typename: 'Post', createdAt },
+      { __typename: 'Author', birthday },
+    ],
+    node: { __typename: 'Author', id: '1', birthday },
+  });
+
+  expect(result.data).toEqual({
+    search: [
+      { __typename: 'Post', createdAt: new Date(createdAt) },
+      { __typename: 'Author', birthday: new Date(birthday) },
+    ],
+    node: { __typename: 'Author', id: '1', birthday: new Date(birthday) },
+  });
+});
+
+it('serializes variables including input objects and lists', () => {
+  const query = gql`
+    query($filter: PostFilter, $before: DateTime, $other: String) {
+      posts(filter: $filter, before: $before) {
+        id
+      }
+    }
+  `;
+
+  const variables = {
+    filter: {
+      after: new Date(createdAt),
+      authorIds: ['1'],
+      or: [{ after: new Date(editedAt) }],
+    },
+    before: new Date(birthday),
+    other: 'value',
+  };
+
+  const operation = client.createRequestOperation(
+    'query',
+    createRequest(query, variables)
+  );
+  const { forwarded } = run(operation, { posts: [] });
+
+  expect(forwarded[0].key).toBe(operation.key);
+  expect(forwarded[0].variables).toEqual({
+    filter: {
+      after: createdAt,
+      authorIds: ['1'],
+      or: [{ after: editedAt }],
+    },
+    before: birthday,
+    other: 'value',
+  });
+
+  // The original variables aren't mutated
+  expect(variables.before).toEqual(new Date(birthday));
+});
+
+it('parses mutation results', () => {
+  const mutation = gql`
+    mutation($at: DateTime!) {
+      createPost(at: $at) {
+        id
+        createdAt
+      }
+    }
+  `;
+
+  const operation = client.createRequestOperation(
+    'mutation',
+    createRequest(mutation, { at: new Date(createdAt) })
+  );
+  const { forwarded, result } = run(operation, {
+    createPost: { id: '1', createdAt },
+  });
+
+  expect(forwarded[0].variables).toEqual({ at: createdAt });
+  expect(result.data).toEqual({
+    createPost: { id: '1', createdAt: new Date(createdAt) },
+  });
+});
+
+it('lets Graphcache store the serialized scalars', () => {
+  const query = gql`
+    query($before: DateTime) {
+      posts(before: $before) {
+        __typename
+        id
+        createdAt
+      }
+    }
+  `;
+
+  const response = jest.fn((operation: Operation) => ({
+    operation,
+    data: {
+      __typename: 'Query',
+      posts: [{ __typename: 'Post', id: '1', createdAt }],
+    },
+  }));
+
+  const exchange = composeExchanges([
+    scalarsExchange(options),
+    cacheExchange({ schema }),
+  ]);
+
+  const forward: ExchangeIO = ops$ =>
+    pipe(
+      ops$,
+      filter(op => op.operationName !== 'teardown'),
+      map(response)
+    );
+
+  const results: OperationResult[] = [];
+  const ops = makeSubject<Operation>();
+  pipe(
+    exchange({ forward, client, dispatchDebug: jest.fn() })(ops.source),
+    subscribe(result => {
+      results.push(result);
+    })
+  );
+
+  const operation = client.createRequestOperation(
+    'query',
+    createRequest(query, { before: new Date(birthday) })
+  );
+  ops.next(operation);
+
+  expect(response).toHaveBeenCalledTimes(1);
+  expect(response.mock.calls[0][0].variables).toEqual({ before: birthday });
+  expect(results[0].data.posts[0].createdAt).toEqual(new Date(createdAt));
+
+  // An identical query with a new Date instance is read from the cache
+  const cachedOperation = client.createRequestOperation(
+    'query',
+    createRequest(query, { before: new Date(birthday) })
+  );
+  ops.next(cachedOperation);
+
+  expect(cachedOperation.key).toBe(operation.key);
+  expect(response).toHaveBeenCalledTimes(1);
+  expect(results).toHaveLength(2);
+  expect(results[1].operation.context.meta!.cacheOutcome).toBe('hit');
+  expect(results[1].data.posts[0].createdAt).toEqual(new Date(createdAt));
+});
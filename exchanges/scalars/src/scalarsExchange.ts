@@ -0,0 +1,283 @@
+import {
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  IntrospectionQuery,
+  IntrospectionType,
+  IntrospectionTypeRef,
+  Kind,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  TypeNode,
+} from 'graphql';
+
+import { map, pipe } from 'wonka';
+import { Exchange, Operation, OperationResult } from '@urql/core';
+
+export interface ScalarConfig {
+  /** Converts a scalar's value in results into a rich value, e.g. a `Date`. */
+  parse?: (value: any) => any;
+  /** Converts a rich value in variables back into the scalar's serialized value. */
+  serialize?: (value: any) => any;
+}
+
+export interface ScalarsExchangeOptions {
+  /** The introspected schema that's used to find the types of fields and variables. */
+  schema: IntrospectionQuery;
+  /** The functions that convert each custom scalar, keyed by the scalar's name. */
+  scalars: Record<string, ScalarConfig>;
+}
+
+interface Context {
+  types: Record<string, IntrospectionType>;
+  scalars: Record<string, ScalarConfig>;
+  fragments: Record<string, FragmentDefinitionNode>;
+}
+
+interface FieldEntry {
+  node: FieldNode;
+  typename: string;
+}
+
+const getTypeRefName = (ref: IntrospectionTypeRef): string =>
+  ref.kind === 'NON_NULL' || ref.kind === 'LIST'
+    ? getTypeRefName(ref.ofType)
+    : ref.name;
+
+const getTypeNodeName = (node: TypeNode): string =>
+  node.kind === Kind.NAMED_TYPE ? node.name.value : getTypeNodeName(node.type);
+
+// Applies a function to a value or to all items of (nested) lists
+const mapValue = (value: any, fn: (value: any) => any): any => {
+  if (value === null || value === undefined) {
+    return value;
+  } else if (Array.isArray(value)) {
+    return value.map(item => mapValue(item, fn));
+  } else {
+    return fn(value);
+  }
+};
+
+const getField = (ctx: Context, typename: string, fieldName: string) => {
+  const type = ctx.types[typename];
+  if (type && (type.kind === 'OBJECT' || type.kind === 'INTERFACE')) {
+    for (let i = 0, l = type.fields.length; i < l; i++)
+      if (type.fields[i].name === fieldName) return type.fields[i];
+  }
+};
+
+// Fragments only apply to data whose __typename matches their type condition,
+// and all fragments apply when no __typename has been queried
+const isFragmentMatching = (
+  ctx: Context,
+  typeCondition: string,
+  data: Record<string, any>
+): boolean => {
+  const typename = data.__typename;
+  if (!typename || typeCondition === typename) return true;
+  const type = ctx.types[typeCondition];
+  return (
+    !!type &&
+    (type.kind === 'INTERFACE' || type.kind === 'UNION') &&
+    type.possibleTypes.some(possibleType => possibleType.name === typename)
+  );
+};
+
+// Groups all fields of a selection set and its fragments by their aliases
+const collectFields = (
+  ctx: Context,
+  typename: string,
+  selectionSet: SelectionSetNode,
+  data: Record<string, any>,
+  fields: Map<string, FieldEntry[]>
+) => {
+  for (let i = 0, l = selectionSet.selections.length; i < l; i++) {
+    const node = selectionSet.selections[i];
+    if (node.kind === Kind.FIELD) {
+      const alias = node.alias ? node.alias.value : node.name.value;
+      const entries = fields.get(alias);
+      if (entries) {
+        entries.push({ node, typename });
+      } else {
+        fields.set(alias, [{ node, typename }]);
+      }
+    } else {
+      const fragment =
+        node.kind === Kind.INLINE_FRAGMENT
+          ? node
+          : ctx.fragments[node.name.value];
+      if (!fragment) continue;
+      const typeCondition = fragment.typeCondition
+        ? fragment.typeCondition.name.value
+        : typename;
+      if (isFragmentMatching(ctx, typeCondition, data)) {
+        collectFields(ctx, typeCondition, fragment.selectionSet, data, fields);
+      }
+    }
+  }
+};
+
+const parseSelections = (
+  ctx: Context,
+  typename: string,
+  selectionSets: SelectionSetNode[],
+  data: any
+): any => {
+  if (typeof data !== 'object') return data;
+
+  const fields = new Map<string, FieldEntry[]>();
+  for (let i = 0, l = selectionSets.length; i < l; i++)
+    collectFields(ctx, typename, selectionSets[i], data, fields);
+
+  // Results are copied rather than mutated, since caches may hold on to them
+  const result = { ...data };
+  fields.forEach((entries, alias) => {
+    const fieldName = entries[0].node.name.value;
+    if (!(alias in data) || fieldName === '__typename') return;
+
+    const field = getField(
+      ctx,
+      data.__typename || entries[0].typename,
+      fieldName
+    );
+    if (!field) return;
+
+    const fieldTypename = getTypeRefName(field.type);
+    const scalar = ctx.scalars[fieldTypename];
+    if (scalar) {
+      if (scalar.parse) result[alias] = mapValue(data[alias], scalar.parse);
+      return;
+    }
+
+    const fieldSelectionSets: SelectionSetNode[] = [];
+    for (let i = 0, l = entries.length; i < l; i++) {
+      const { selectionSet } = entries[i].node;
+      if (selectionSet) fieldSelectionSets.push(selectionSet);
+    }
+
+    if (fieldSelectionSets.length) {
+      result[alias] = mapValue(data[alias], item =>
+        parseSelections(ctx, fieldTypename, fieldSelectionSets, item)
+      );
+    }
+  });
+
+  return result;
+};
+
+const serializeValue = (ctx: Context, typename: string, value: any): any =>
+  mapValue(value, item => {
+    const type = ctx.types[typename];
+    if (type && type.kind === 'INPUT_OBJECT' && typeof item === 'object') {
+      const result = { ...item };
+      for (let i = 0, l = type.inputFields.length; i < l; i++) {
+        const { name, type: fieldType } = type.inputFields[i];
+        if (name in item) {
+          result[name] = serializeValue(
+            ctx,
+            getTypeRefName(fieldType),
+            item[name]
+          );
+        }
+      }
+      return result;
+    }
+
+    const scalar = ctx.scalars[typename];
+    return scalar && scalar.serialize ? scalar.serialize(item) : item;
+  });
+
+const getOperationDefinition = (
+  query: DocumentNode
+): OperationDefinitionNode | undefined => {
+  for (let i = 0, l = query.definitions.length; i < l; i++) {
+    const node = query.definitions[i];
+    if (node.kind === Kind.OPERATION_DEFINITION) return node;
+  }
+};
+
+const makeContext = (
+  types: Record<string, IntrospectionType>,
+  scalars: Record<string, ScalarConfig>,
+  query: DocumentNode
+): Context => {
+  const fragments: Record<string, FragmentDefinitionNode> = {};
+  for (let i = 0, l = query.definitions.length; i < l; i++) {
+    const node = query.definitions[i];
+    if (node.kind === Kind.FRAGMENT_DEFINITION)
+      fragments[node.name.value] = node;
+  }
+
+  return { types, scalars, fragments };
+};
+
+export const scalarsExchange = ({
+  schema,
+  scalars,
+}: ScalarsExchangeOptions): Exchange => ({ forward }) => {
+  const types: Record<string, IntrospectionType> = {};
+  schema.__schema.types.forEach(type => {
+    types[type.name] = type;
+  });
+
+  const { queryType, mutationType, subscriptionType } = schema.__schema;
+  const rootTypenames: Record<string, string> = {
+    query: queryType.name,
+    mutation: mutationType ? mutationType.name : 'Mutation',
+    subscription: subscriptionType ? subscriptionType.name : 'Subscription',
+  };
+
+  const serializeVariables = (operation: Operation): Operation => {
+    const definition = getOperationDefinition(operation.query);
+    const { variables } = operation;
+    if (!variables || !definition || !definition.variableDefinitions) {
+      return operation;
+    }
+
+    const ctx = makeContext(types, scalars, operation.query);
+    const serialized = { ...variables };
+    definition.variableDefinitions.forEach(node => {
+      const name = node.variable.name.value;
+      if (name in variables) {
+        serialized[name] = serializeValue(
+          ctx,
+          getTypeNodeName(node.type),
+          variables[name]
+        );
+      }
+    });
+
+    return { ...operation, variables: serialized };
+  };
+
+  const parseResult = (result: OperationResult): OperationResult => {
+    const { operation, data } = result;
+    const definition = getOperationDefinition(operation.query);
+    if (!data || !definition || operation.operationName === 'teardown') {
+      return result;
+    }
+
+    const ctx = makeContext(types, scalars, operation.query);
+    return {
+      ...result,
+      data: parseSelections(
+        ctx,
+        rootTypenames[operation.operationName],
+        [definition.selectionSet],
+        data
+      ),
+    };
+  };
+
+  return ops$ =>
+    pipe(
+      ops$,
+      map(operation =>
+        operation.operationName === 'teardown'
+          ? operation
+          : serializeVariables(operation)
+      ),
+      forward,
+      map(parseResult)
+    );
+};
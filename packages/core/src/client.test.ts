@@ -3,7 +3,16 @@ import gql from 'graphql-tag';
 
 /** NOTE: Testing in this file is designed to test both the client and its interaction with default Exchanges */
 
-import { map, pipe, subscribe, filter, toArray, tap } from 'wonka';
+import {
+  filter,
+  makeSubject,
+  map,
+  pipe,
+  publish,
+  subscribe,
+  tap,
+  toArray,
+} from 'wonka';
 import { Exchange, Operation, OperationResult } from './types';
 import { createClient } from './client';
 import { queryOperation } from './test-utils';
@@ -377,3 +386,57 @@ describe('queuing behavior', () => {
     expect(output[3]).toBe(results[1]);
   });
 });
+
+describe('structural sharing', () => {
+  it('reuses unchanged parts of the data of previous results', () => {
+    const todos = [
+      { __typename: 'Todo', id: '1', text: 'Learn' },
+      { __typename: 'Todo', id: '2', text: 'Teach' },
+    ];
+
+    const user = { __typename: 'User', id: '1' };
+    const results$ = makeSubject<OperationResult>();
+    const exchange: Exchange = () => ops$ => {
+      pipe(ops$, publish);
+      return results$.source;
+    };
+
+    const client = createClient({ url: 'test', exchanges: [exchange] });
+    const results: any[] = [];
+    pipe(
+      client.executeRequestOperation(queryOperation),
+      subscribe(result => {
+        results.push(result.data);
+      })
+    );
+
+    const next = (data: any) =>
+      results$.next({ operation: queryOperation, data });
+
+    next({ __typename: 'Query', todos, user });
+    next({
+      __typename: 'Query',
+      todos: [{ ...todos[0] }, { ...todos[1], text: 'Share' }],
+      user: { ...user },
+    });
+    next({
+      __typename: 'Query',
+      todos: [{ ...todos[0] }, { ...todos[1], text: 'Share' }],
+      user: { ...user },
+    });
+
+    expect(results).toHaveLength(3);
+    const [first, second, third] = results;
+
+    expect(second).not.toBe(first);
+    expect(second.todos).not.toBe(first.todos);
+    expect(second.todos[0]).toBe(first.todos[0]);
+    expect(second.todos[1]).toEqual({
+      __typename: 'Todo',
+      id: '2',
+      text: 'Share',
+    });
+    expect(second.user).toBe(first.user);
+    expect(third).toBe(second);
+  });
+});
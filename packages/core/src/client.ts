@@ -26,6 +26,7 @@ import { fallbackExchange } from './exchanges/fallback';
 import {
   Exchange,
   ExchangeInput,
+  FetchMiddleware,
   GraphQLRequest,
   Operation,
   OperationContext,
@@ -34,6 +35,7 @@ import {
   RequestPolicy,
   PromisifiedSource,
   DebugEvent,
+  TypedDocumentNode,
 } from './types';
 
 import {
@@ -41,6 +43,7 @@ import {
   toSuspenseSource,
   withPromise,
   maskTypename,
+  shareResultData,
   noop,
 } from './utils';
 
@@ -54,6 +57,8 @@ export interface ClientOptions {
   fetchOptions?: RequestInit | (() => RequestInit);
   /** An alternative fetch implementation. */
   fetch?: typeof fetch;
+  /** Middleware for inspecting and altering the requests and responses of fetch exchanges. */
+  fetchMiddleware?: FetchMiddleware[];
   /** An ordered array of Exchanges. */
   exchanges?: Exchange[];
   /** Activates support for Suspense. */
@@ -84,6 +89,7 @@ export class Client {
   url: string;
   fetch?: typeof fetch;
   fetchOptions?: RequestInit | (() => RequestInit);
+  fetchMiddleware?: FetchMiddleware[];
   suspense: boolean;
   preferGetMethod: boolean;
   requestPolicy: RequestPolicy;
@@ -112,6 +118,7 @@ export class Client {
     this.url = opts.url;
     this.fetchOptions = opts.fetchOptions;
     this.fetch = opts.fetch;
+    this.fetchMiddleware = opts.fetchMiddleware;
     this.suspense = !!opts.suspense;
     this.requestPolicy = opts.requestPolicy || 'cache-first';
     this.preferGetMethod = !!opts.preferGetMethod;
@@ -172,6 +179,7 @@ export class Client {
     url: this.url,
     fetchOptions: this.fetchOptions,
     fetch: this.fetch,
+    fetchMiddleware: this.fetchMiddleware,
     preferGetMethod: this.preferGetMethod,
     ...opts,
     requestPolicy: (opts || {}).requestPolicy || this.requestPolicy,
@@ -226,6 +234,16 @@ export class Client {
       );
     }
 
+    // Unchanged parts of the data keep their identity across results
+    let prevData: any;
+    operationResults$ = pipe(
+      operationResults$,
+      map(res => {
+        if (res.data) res.data = prevData = shareResultData(prevData, res.data);
+        return res;
+      })
+    );
+
     if (operationName === 'mutation') {
       // A mutation is always limited to just a single result and is never shared
       return pipe(
@@ -261,7 +279,7 @@ export class Client {
   }
 
   query<Data = any, Variables extends object = {}>(
-    query: DocumentNode | string,
+    query: DocumentNode | TypedDocumentNode<Data, Variables> | string,
     variables?: Variables,
     context?: Partial<OperationContext>
   ): PromisifiedSource<OperationResult<Data>> {
@@ -275,7 +293,7 @@ export class Client {
   }
 
   readQuery<Data = any, Variables extends object = {}>(
-    query: DocumentNode | string,
+    query: DocumentNode | TypedDocumentNode<Data, Variables> | string,
     variables?: Variables,
     context?: Partial<OperationContext>
   ): OperationResult<Data> | null {
@@ -291,8 +309,8 @@ export class Client {
     return result;
   }
 
-  executeQuery = <Data = any>(
-    query: GraphQLRequest,
+  executeQuery = <Data = any, Variables extends object = {}>(
+    query: GraphQLRequest<Data, Variables>,
     opts?: Partial<OperationContext>
   ): Source<OperationResult<Data>> => {
     const operation = this.createRequestOperation('query', query, opts);
@@ -310,23 +328,23 @@ export class Client {
   };
 
   subscription<Data = any, Variables extends object = {}>(
-    query: DocumentNode | string,
+    query: DocumentNode | TypedDocumentNode<Data, Variables> | string,
     variables?: Variables,
     context?: Partial<OperationContext>
   ): Source<OperationResult<Data>> {
     return this.executeSubscription(createRequest(query, variables), context);
   }
 
-  executeSubscription = (
-    query: GraphQLRequest,
+  executeSubscription = <Data = any, Variables extends object = {}>(
+    query: GraphQLRequest<Data, Variables>,
     opts?: Partial<OperationContext>
-  ): Source<OperationResult> => {
+  ): Source<OperationResult<Data>> => {
     const operation = this.createRequestOperation('subscription', query, opts);
     return this.executeRequestOperation(operation);
   };
 
   mutation<Data = any, Variables extends object = {}>(
-    query: DocumentNode | string,
+    query: DocumentNode | TypedDocumentNode<Data, Variables> | string,
     variables?: Variables,
     context?: Partial<OperationContext>
   ): PromisifiedSource<OperationResult<Data>> {
@@ -335,8 +353,8 @@ export class Client {
     );
   }
 
-  executeMutation = <Data = any>(
-    query: GraphQLRequest,
+  executeMutation = <Data = any, Variables extends object = {}>(
+    query: GraphQLRequest<Data, Variables>,
     opts?: Partial<OperationContext>
   ): Source<OperationResult<Data>> => {
     const operation = this.createRequestOperation('mutation', query, opts);
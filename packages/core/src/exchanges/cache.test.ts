@@ -20,6 +20,7 @@ import {
   undefinedQueryResponse,
 } from '../test-utils';
 import { Operation, OperationResult, ExchangeInput } from '../types';
+import { makeErrorResult } from '../utils';
 import { afterMutation, cacheExchange } from './cache';
 
 const reexecuteOperation = jest.fn();
@@ -107,6 +108,131 @@ describe('on query', () => {
     });
   });
 
+  it('respects cache-and-network-if-stale', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const { source: ops$, next, complete } = input;
+    const result = jest.fn();
+    const exchange = cacheExchange(exchangeArgs)(ops$);
+
+    const staleOperation = {
+      ...queryOperation,
+      context: {
+        ...queryOperation.context,
+        requestPolicy: 'cache-and-network-if-stale',
+        maxAge: 500,
+      },
+    } as Operation;
+
+    pipe(exchange, forEach(result));
+    next(queryOperation);
+
+    // The cached result is still fresh
+    now.mockReturnValue(1500);
+    next(staleOperation);
+    expect(reexecuteOperation).not.toHaveBeenCalled();
+    expect(result).toHaveBeenCalledTimes(2);
+    expect(result.mock.calls[1][0].stale).toBe(undefined);
+
+    // The cached result is older than the maxAge
+    now.mockReturnValue(1501);
+    next(staleOperation);
+    expect(reexecuteOperation).toHaveBeenCalledTimes(1);
+    expect(result).toHaveBeenCalledTimes(3);
+    expect(result.mock.calls[2][0].stale).toBe(true);
+    expect(reexecuteOperation.mock.calls[0][0]).toHaveProperty(
+      'context.requestPolicy',
+      'network-only'
+    );
+
+    complete();
+    expect(forwardedOperations.length).toBe(1);
+    now.mockRestore();
+  });
+
+  it('does not treat results as stale with cache-and-network-if-stale but without a maxAge', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const { source: ops$, next, complete } = input;
+    const result = jest.fn();
+    const exchange = cacheExchange(exchangeArgs)(ops$);
+
+    const staleOperation = {
+      ...queryOperation,
+      context: {
+        ...queryOperation.context,
+        requestPolicy: 'cache-and-network-if-stale',
+      },
+    } as Operation;
+
+    pipe(exchange, forEach(result));
+    next(queryOperation);
+
+    now.mockReturnValue(100000);
+    next(staleOperation);
+    expect(reexecuteOperation).not.toHaveBeenCalled();
+    expect(result).toHaveBeenCalledTimes(2);
+    expect(result.mock.calls[1][0].stale).toBe(undefined);
+
+    complete();
+    expect(forwardedOperations.length).toBe(1);
+    now.mockRestore();
+  });
+
+  it('respects network-first', () => {
+    const { source: ops$, next, complete } = input;
+    const result = jest.fn();
+    const exchange = cacheExchange(exchangeArgs)(ops$);
+
+    const networkFirstOperation = {
+      ...queryOperation,
+      context: {
+        ...queryOperation.context,
+        requestPolicy: 'network-first',
+      },
+    } as Operation;
+
+    pipe(exchange, forEach(result));
+    next(queryOperation);
+
+    // Network errors fall back to the cached result
+    const error = new Error('Offline');
+    response = makeErrorResult(networkFirstOperation, error);
+    next(networkFirstOperation);
+
+    complete();
+    expect(forwardedOperations.length).toBe(2);
+    expect(forwardedOperations[1].context.requestPolicy).toBe('network-first');
+    expect(result).toHaveBeenCalledTimes(2);
+    expect(result.mock.calls[1][0].data).toEqual(queryResponse.data);
+    expect(result.mock.calls[1][0].stale).toBe(true);
+    expect(result.mock.calls[1][0].error.networkError).toBe(error);
+    expect(result.mock.calls[1][0].operation.context.meta.cacheOutcome).toBe(
+      'hit'
+    );
+  });
+
+  it('returns network errors of network-first queries without cached results', () => {
+    const { source: ops$, next, complete } = input;
+    const result = jest.fn();
+    const exchange = cacheExchange(exchangeArgs)(ops$);
+
+    const networkFirstOperation = {
+      ...queryOperation,
+      context: {
+        ...queryOperation.context,
+        requestPolicy: 'network-first',
+      },
+    } as Operation;
+
+    response = makeErrorResult(networkFirstOperation, new Error('Offline'));
+
+    pipe(exchange, forEach(result));
+    next(networkFirstOperation);
+
+    complete();
+    expect(result).toHaveBeenCalledTimes(1);
+    expect(result.mock.calls[0][0]).toBe(response);
+  });
+
   it('respects cache-only', () => {
     const { source: ops$, next, complete } = input;
     const exchange = cacheExchange(exchangeArgs)(ops$);
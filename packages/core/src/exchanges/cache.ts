@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-use-before-define */
-import { filter, map, merge, pipe, share, tap } from 'wonka';
+import { filter, map, merge, pipe, share } from 'wonka';
 
 import { Client } from '../client';
 import { Exchange, Operation, OperationResult, ExchangeInput } from '../types';
@@ -10,6 +10,7 @@ import {
 } from '../utils';
 
 type ResultCache = Map<number, OperationResult>;
+type ResultTimestamps = Map<number, number>;
 
 interface OperationCache {
   [key: string]: Set<number>;
@@ -20,6 +21,7 @@ const shouldSkip = ({ operationName }: Operation) =>
 
 export const cacheExchange: Exchange = ({ forward, client, dispatchDebug }) => {
   const resultCache = new Map() as ResultCache;
+  const resultTimestamps = new Map() as ResultTimestamps;
   const operationCache = Object.create(null) as OperationCache;
 
   // Adds unique typenames to query (for invalidating cache entries)
@@ -35,7 +37,19 @@ export const cacheExchange: Exchange = ({ forward, client, dispatchDebug }) => {
     dispatchDebug
   );
 
-  const handleAfterQuery = afterQuery(resultCache, operationCache);
+  const handleAfterQuery = afterQuery(
+    resultCache,
+    operationCache,
+    resultTimestamps
+  );
+
+  // Cached results are stale once they're older than the operation's maxAge, if one is set
+  const isResultStale = (operation: Operation) => {
+    const { maxAge } = operation.context;
+    if (maxAge === undefined) return false;
+    const timestamp = resultTimestamps.get(operation.key);
+    return timestamp === undefined || Date.now() - timestamp > maxAge;
+  };
 
   const isOperationCached = operation => {
     const {
@@ -46,10 +60,41 @@ export const cacheExchange: Exchange = ({ forward, client, dispatchDebug }) => {
     return (
       operationName === 'query' &&
       requestPolicy !== 'network-only' &&
+      requestPolicy !== 'network-first' &&
       (requestPolicy === 'cache-only' || resultCache.has(key))
     );
   };
 
+  // Network errors of network-first queries fall back to the cached result
+  const fallbackToCache = (response: OperationResult): OperationResult => {
+    const { operation, error } = response;
+    const cachedResult = resultCache.get(operation.key);
+    if (
+      operation.context.requestPolicy !== 'network-first' ||
+      !error ||
+      !error.networkError ||
+      !cachedResult
+    ) {
+      return response;
+    }
+
+    const result: OperationResult = {
+      ...cachedResult,
+      operation: addMetadata(operation, { cacheOutcome: 'hit' }),
+      error,
+      stale: true,
+    };
+
+    dispatchDebug({
+      type: 'cacheHit',
+      message: 'The result was retrieved from the cache after a network error',
+      operation,
+      data: { value: result },
+    });
+
+    return result;
+  };
+
   return ops$ => {
     const sharedOps$ = share(ops$);
 
@@ -79,7 +124,11 @@ export const cacheExchange: Exchange = ({ forward, client, dispatchDebug }) => {
           }),
         };
 
-        if (operation.context.requestPolicy === 'cache-and-network') {
+        if (
+          operation.context.requestPolicy === 'cache-and-network' ||
+          (operation.context.requestPolicy === 'cache-and-network-if-stale' &&
+            isResultStale(operation))
+        ) {
           result.stale = true;
           reexecuteOperation(client, operation);
         }
@@ -107,7 +156,7 @@ export const cacheExchange: Exchange = ({ forward, client, dispatchDebug }) => {
           op.context.requestPolicy !== 'cache-only'
       ),
       forward,
-      tap(response => {
+      map(response => {
         if (
           response.operation &&
           response.operation.operationName === 'mutation'
@@ -118,7 +167,10 @@ export const cacheExchange: Exchange = ({ forward, client, dispatchDebug }) => {
           response.operation.operationName === 'query'
         ) {
           handleAfterQuery(response);
+          return fallbackToCache(response);
         }
+
+        return response;
       })
     );
 
@@ -180,7 +232,8 @@ export const afterMutation = (
 // Mark typenames on typenameInvalidate for early invalidation
 const afterQuery = (
   resultCache: ResultCache,
-  operationCache: OperationCache
+  operationCache: OperationCache,
+  resultTimestamps: ResultTimestamps
 ) => (response: OperationResult) => {
   const { operation, data, error } = response;
   const { additionalTypenames } = operation.context;
@@ -190,6 +243,7 @@ const afterQuery = (
   }
 
   resultCache.set(operation.key, { operation, data, error });
+  resultTimestamps.set(operation.key, Date.now());
 
   [
     ...collectTypesFromResponse(response.data),
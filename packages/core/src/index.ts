@@ -1,5 +1,6 @@
 export * from './client';
 export * from './exchanges';
+export * from './transports';
 export * from './types';
 
 export {
@@ -8,6 +9,10 @@ export {
   createRequest,
   makeResult,
   makeErrorResult,
+  mergeResultPatch,
   formatDocument,
   maskTypename,
+  shareResultData,
+  TimeoutError,
+  withTimeout,
 } from './utils';
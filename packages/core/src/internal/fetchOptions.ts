@@ -83,6 +83,7 @@ export const makeFetchOptions = (
     body: !useGETMethod && body ? JSON.stringify(body) : undefined,
     method: useGETMethod ? 'GET' : 'POST',
     headers: {
+      accept: 'multipart/mixed, application/graphql+json, application/json',
       'content-type': 'application/json',
       ...extraOptions.headers,
     },
@@ -1,7 +1,9 @@
-import { pipe, subscribe, toPromise } from 'wonka';
+import { pipe, onEnd, subscribe, toPromise } from 'wonka';
 
 import { queryOperation } from '../test-utils';
+import { OperationResult } from '../types';
 import { makeFetchSource } from './fetchSource';
+import { TimeoutError } from '../utils';
 
 const fetch = (global as any).fetch as jest.Mock;
 const abort = jest.fn();
@@ -123,6 +125,85 @@ describe('on error', () => {
   });
 });
 
+describe('on multipart', () => {
+  const makeMultipartResponse = (chunks: string[]) => {
+    let index = 0;
+    return {
+      status: 200,
+      headers: new Map([
+        ['Content-Type', 'multipart/mixed; boundary="-"; deferSpec=20220824'],
+      ]),
+      body: {
+        getReader: () => ({
+          read: () =>
+            Promise.resolve(
+              index < chunks.length
+                ? { done: false, value: chunks[index++] }
+                : { done: true, value: undefined }
+            ),
+        }),
+      },
+    };
+  };
+
+  const part = (payload: object) =>
+    '\r\nContent-Type: application/json; charset=utf-8\r\n\r\n' +
+    JSON.stringify(payload) +
+    '\r\n---';
+
+  it('emits a result for each incremental payload', async () => {
+    const payloadA = part({ data: { user: { id: '1' } }, hasNext: true });
+    const payloadB = part({
+      incremental: [{ path: ['user'], data: { name: 'Clara' } }],
+      hasNext: false,
+    });
+
+    fetch.mockResolvedValueOnce(
+      makeMultipartResponse([
+        '---' + payloadA.slice(0, 20),
+        payloadA.slice(20) + payloadB + '--\r\n',
+      ])
+    );
+
+    const results: OperationResult[] = [];
+    await new Promise(resolve => {
+      pipe(
+        makeFetchSource(queryOperation, 'https://test.com/graphql', {}),
+        onEnd(resolve),
+        subscribe(result => {
+          results.push(result);
+        })
+      );
+    });
+
+    expect(results).toHaveLength(2);
+    expect(results[0].data).toEqual({ user: { id: '1' } });
+    expect(results[0].hasNext).toBe(true);
+    expect(results[1].data).toEqual({ user: { id: '1', name: 'Clara' } });
+    expect(results[1].hasNext).toBe(false);
+  });
+
+  it('reads the entire body when it cannot be streamed', async () => {
+    fetch.mockResolvedValueOnce({
+      status: 200,
+      headers: new Map([['Content-Type', 'multipart/mixed']]),
+      text: jest
+        .fn()
+        .mockResolvedValue(
+          '---' + part({ data: { user: 1200 }, hasNext: false }) + '--'
+        ),
+    });
+
+    const data = await pipe(
+      makeFetchSource(queryOperation, 'https://test.com/graphql', {}),
+      toPromise
+    );
+
+    expect(data.data).toEqual({ user: 1200 });
+    expect(data.hasNext).toBe(false);
+  });
+});
+
 describe('on teardown', () => {
   it('does not start the outgoing request on immediate teardowns', () => {
     fetch.mockRejectedValueOnce(abortError);
@@ -152,3 +233,199 @@ describe('on teardown', () => {
     expect(abort).toHaveBeenCalledTimes(1);
   });
 });
+
+describe('on timeout', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('aborts the request and returns a TimeoutError', async () => {
+    fetch.mockReturnValueOnce(new Promise(() => undefined));
+
+    const operation = {
+      ...queryOperation,
+      context: { ...queryOperation.context, timeout: 1000 },
+    };
+
+    const result = jest.fn();
+    const end = jest.fn();
+    pipe(
+      makeFetchSource(operation, 'https://test.com/graphql', {}),
+      onEnd(end),
+      subscribe(result)
+    );
+
+    await Promise.resolve();
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(abort).toHaveBeenCalledTimes(1);
+    expect(result).toHaveBeenCalledTimes(1);
+    expect(end).toHaveBeenCalledTimes(1);
+
+    const { networkError } = result.mock.calls[0][0].error;
+    expect(networkError).toBeInstanceOf(TimeoutError);
+    expect(networkError.name).toBe('TimeoutError');
+  });
+
+  it('returns an AbortError when an external signal is aborted', async () => {
+    fetch.mockReturnValueOnce(new Promise(() => undefined));
+
+    let onAbort: () => void = fail;
+    const signal = {
+      aborted: false,
+      addEventListener: jest.fn((_type, listener) => (onAbort = listener)),
+      removeEventListener: jest.fn(),
+    };
+
+    const operation = {
+      ...queryOperation,
+      context: { ...queryOperation.context, signal: signal as any },
+    };
+
+    const result = jest.fn();
+    pipe(
+      makeFetchSource(operation, 'https://test.com/graphql', {}),
+      subscribe(result)
+    );
+
+    await Promise.resolve();
+    onAbort();
+
+    expect(abort).toHaveBeenCalledTimes(1);
+    expect(signal.removeEventListener).toHaveBeenCalledWith('abort', onAbort);
+    expect(result.mock.calls[0][0].error.networkError.name).toBe('AbortError');
+  });
+});
+
+describe('on fetch middleware', () => {
+  const headers = { get: jest.fn(() => 'trace-id') };
+
+  beforeEach(() => {
+    fetch.mockReset();
+    fetch.mockResolvedValue({
+      status: 200,
+      headers,
+      json: jest.fn().mockResolvedValue(response),
+    });
+  });
+
+  it('adds the response status and headers to results', async () => {
+    const result = await pipe(
+      makeFetchSource(queryOperation, 'https://test.com/graphql', {}),
+      toPromise
+    );
+
+    expect(result.status).toBe(200);
+    expect(result.headers).toBe(headers);
+  });
+
+  it('calls onRequest in order and sends the returned options', async () => {
+    const fetchOptions: RequestInit = { method: 'POST' };
+    const first = jest.fn((_operation, _url, init) => ({
+      ...init,
+      headers: { 'X-First': '1' },
+    }));
+    const second = jest.fn<undefined, any[]>(() => undefined);
+
+    const operation = {
+      ...queryOperation,
+      context: {
+        ...queryOperation.context,
+        fetchMiddleware: [{ onRequest: first }, { onRequest: second }],
+      },
+    };
+
+    await pipe(
+      makeFetchSource(operation, 'https://test.com/graphql', fetchOptions),
+      toPromise
+    );
+
+    expect(first).toHaveBeenCalledWith(
+      operation,
+      'https://test.com/graphql',
+      fetchOptions
+    );
+    expect(second.mock.calls[0][2]).toBe(first.mock.results[0].value);
+    expect(fetch.mock.calls[0][1]).toEqual({
+      method: 'POST',
+      headers: { 'X-First': '1' },
+    });
+  });
+
+  it('calls onResponse in order and emits the returned result', async () => {
+    const first = jest.fn((_operation, response, result) => ({
+      ...result,
+      extensions: { traceId: response.headers.get('X-Trace-Id') },
+    }));
+    const second = jest.fn<undefined, any[]>(() => undefined);
+
+    const operation = {
+      ...queryOperation,
+      context: {
+        ...queryOperation.context,
+        fetchMiddleware: [{ onResponse: first }, { onResponse: second }],
+      },
+    };
+
+    const result = await pipe(
+      makeFetchSource(operation, 'https://test.com/graphql', {}),
+      toPromise
+    );
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(first.mock.calls[0][2].status).toBe(200);
+    expect(second.mock.calls[0][2]).toBe(first.mock.results[0].value);
+    expect(result.extensions).toEqual({ traceId: 'trace-id' });
+    expect(result.data).toEqual(response.data);
+  });
+
+  it('calls onResponse for error results', async () => {
+    fetch.mockResolvedValue({
+      status: 401,
+      statusText: 'Unauthorized',
+      headers,
+      json: jest.fn().mockResolvedValue({}),
+    });
+
+    const onResponse = jest.fn(() => undefined);
+    const operation = {
+      ...queryOperation,
+      context: { ...queryOperation.context, fetchMiddleware: [{ onResponse }] },
+    };
+
+    const result = await pipe(
+      makeFetchSource(operation, 'https://test.com/graphql', {}),
+      toPromise
+    );
+
+    expect(onResponse).toHaveBeenCalledTimes(1);
+    expect(result.status).toBe(401);
+    expect(result.error!.networkError!.message).toBe('Unauthorized');
+  });
+
+  it('turns errors thrown by onResponse into error results', async () => {
+    const onResponse = jest.fn(() => {
+      throw new Error('Middleware failed');
+    });
+    const operation = {
+      ...queryOperation,
+      context: { ...queryOperation.context, fetchMiddleware: [{ onResponse }] },
+    };
+
+    const result = await pipe(
+      makeFetchSource(operation, 'https://test.com/graphql', {}),
+      toPromise
+    );
+
+    expect(onResponse).toHaveBeenCalledTimes(1);
+    expect(result.data).toBe(undefined);
+    expect(result.status).toBe(200);
+    expect(result.error!.networkError!.message).toBe('Middleware failed');
+  });
+});
@@ -1,41 +1,167 @@
 import { Operation, OperationResult } from '../types';
-import { makeResult, makeErrorResult } from '../utils';
-import { make } from 'wonka';
+import {
+  makeResult,
+  makeErrorResult,
+  mergeResultPatch,
+  withTimeout,
+} from '../utils';
+import { make, pipe } from 'wonka';
+
+const boundaryHeaderRe = /boundary="?([^=";]+)"?/i;
+const partHeadersEndRe = /\r?\n\r?\n/;
+
+// Reads the response's body in chunks, falling back to reading it all at
+// once when the environment doesn't support streamed bodies
+const readChunks = (
+  response: Response,
+  onChunk: (chunk: string) => void
+): Promise<void> => {
+  if (!response.body || typeof response.body.getReader !== 'function') {
+    return response.text().then(onChunk);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = typeof TextDecoder !== 'undefined' ? new TextDecoder() : null;
+
+  const read = (): Promise<void> =>
+    reader.read().then(({ done, value }) => {
+      if (done) return;
+      onChunk(
+        typeof value === 'string' || !decoder
+          ? String(value)
+          : decoder.decode(value, { stream: true })
+      );
+      return read();
+    });
+
+  return read();
+};
+
+const executeIncrementalFetch = (
+  operation: Operation,
+  response: Response,
+  contentType: string,
+  onResult: (result: OperationResult) => void
+): Promise<void> => {
+  const boundaryHeader = contentType.match(boundaryHeaderRe);
+  const boundary = '--' + (boundaryHeader ? boundaryHeader[1] : '-');
+
+  let buffer = '';
+  let result: OperationResult | undefined;
+
+  return readChunks(response, chunk => {
+    buffer += chunk;
+
+    let boundaryIndex: number;
+    while ((boundaryIndex = buffer.indexOf(boundary)) > -1) {
+      const part = buffer.slice(0, boundaryIndex);
+      buffer = buffer.slice(boundaryIndex + boundary.length);
+
+      // Each part consists of its headers followed by a JSON payload
+      const headersEnd = part.search(partHeadersEndRe);
+      const body = headersEnd > -1 ? part.slice(headersEnd).trim() : '';
+      if (!body) continue;
+
+      const payload = JSON.parse(body);
+      if (!result) {
+        if (!('data' in payload) && !('errors' in payload)) {
+          throw new Error('No Content');
+        }
+
+        result = {
+          ...makeResult(operation, payload, response),
+          hasNext: !!payload.hasNext,
+        };
+      } else {
+        result = mergeResultPatch(result, payload, response);
+      }
+
+      onResult(result);
+    }
+  }).then(() => {
+    if (!result) throw new Error('No Content');
+  });
+};
 
 const executeFetch = (
   operation: Operation,
   url: string,
-  fetchOptions: RequestInit
-): Promise<OperationResult> => {
-  const fetcher = operation.context.fetch;
+  fetchOptions: RequestInit,
+  onResult: (result: OperationResult) => void
+): Promise<void> => {
+  const { fetch: fetcher, fetchMiddleware } = operation.context;
 
   let statusNotOk = false;
   let response: Response;
 
+  // Results receive the response's status and headers and are then passed
+  // through each middleware's `onResponse` hook
+  const onResponseResult = (result: OperationResult) => {
+    if (response) {
+      result = {
+        ...result,
+        status: response.status,
+        headers: response.headers,
+      };
+      if (fetchMiddleware) {
+        try {
+          for (let i = 0, l = fetchMiddleware.length; i < l; i++) {
+            const { onResponse } = fetchMiddleware[i];
+            if (onResponse)
+              result = onResponse(operation, response, result) || result;
+          }
+        } catch (error) {
+          // A throwing hook turns the result into an error result, which
+          // isn't passed through the hooks again
+          result = {
+            ...makeErrorResult(operation, error, response),
+            status: response.status,
+            headers: response.headers,
+          };
+        }
+      }
+    }
+
+    onResult(result);
+  };
+
   return (fetcher || fetch)(url, fetchOptions)
     .then((res: Response) => {
       response = res;
       statusNotOk =
         res.status < 200 ||
         res.status >= (fetchOptions.redirect === 'manual' ? 400 : 300);
-      return res.json();
-    })
-    .then((result: any) => {
-      if (!('data' in result) && !('errors' in result)) {
-        throw new Error('No Content');
+
+      const contentType =
+        (res.headers && res.headers.get('Content-Type')) || '';
+      if (/multipart\/mixed/i.test(contentType)) {
+        return executeIncrementalFetch(
+          operation,
+          res,
+          contentType,
+          onResponseResult
+        );
       }
 
-      return makeResult(operation, result, response);
+      return Promise.resolve(res.json()).then((result: any) => {
+        if (!('data' in result) && !('errors' in result)) {
+          throw new Error('No Content');
+        }
+
+        onResponseResult(makeResult(operation, result, response));
+      });
     })
     .catch((error: Error) => {
       if (error.name !== 'AbortError') {
-        return makeErrorResult(
-          operation,
-          statusNotOk ? new Error(response.statusText) : error,
-          response
+        onResponseResult(
+          makeErrorResult(
+            operation,
+            statusNotOk ? new Error(response.statusText) : error,
+            response
+          )
         );
       }
-    }) as Promise<OperationResult>;
+    });
 };
 
 export const makeFetchSource = (
@@ -43,7 +169,7 @@ export const makeFetchSource = (
   url: string,
   fetchOptions: RequestInit
 ) => {
-  return make<OperationResult>(({ next, complete }) => {
+  const fetch$ = make<OperationResult>(({ next, complete }) => {
     const abortController =
       typeof AbortController !== 'undefined' ? new AbortController() : null;
 
@@ -51,18 +177,30 @@ export const makeFetchSource = (
 
     Promise.resolve()
       .then(() => {
-        if (ended) {
-          return;
-        } else if (abortController) {
-          fetchOptions.signal = abortController.signal;
+        if (ended) return;
+
+        // Each middleware's `onRequest` hook may replace the request's options
+        let init = fetchOptions;
+        const { fetchMiddleware } = operation.context;
+        if (fetchMiddleware) {
+          for (let i = 0, l = fetchMiddleware.length; i < l; i++) {
+            const { onRequest } = fetchMiddleware[i];
+            if (onRequest) init = onRequest(operation, url, init) || init;
+          }
         }
 
-        return executeFetch(operation, url, fetchOptions);
+        if (abortController) {
+          init.signal = abortController.signal;
+        }
+
+        // Incremental responses may call `onResult` several times
+        return executeFetch(operation, url, init, result => {
+          if (!ended) next(result);
+        });
       })
-      .then((result: OperationResult | undefined) => {
+      .then(() => {
         if (!ended) {
           ended = true;
-          if (result) next(result);
           complete();
         }
       });
@@ -74,4 +212,7 @@ export const makeFetchSource = (
       }
     };
   });
+
+  // The operation's timeout and signal end the fetch early with an error result
+  return pipe(fetch$, withTimeout(operation));
 };
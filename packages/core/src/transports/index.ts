@@ -0,0 +1,2 @@
+export * from './ws';
+export * from './sse';
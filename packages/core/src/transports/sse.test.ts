@@ -0,0 +1,264 @@
+import http from 'http';
+import { makeSSETransport } from './sse';
+import { SubscriptionOperation } from '../exchanges/subscription';
+
+const fetch = (global as any).fetch as jest.Mock;
+
+const operation: SubscriptionOperation = {
+  key: '1',
+  query: 'subscription { onMessage }',
+  variables: { x: 1 },
+  context: {
+    url: 'http://localhost:3000/graphql',
+    fetchOptions: { headers: { 'x-custom': 'yes' } },
+    requestPolicy: 'cache-first',
+  },
+};
+
+const makeSink = () => ({
+  next: jest.fn(),
+  error: jest.fn(),
+  complete: jest.fn(),
+});
+
+const makeStreamResponse = (chunks: string[]) => {
+  let index = 0;
+  return {
+    status: 200,
+    headers: new Map([['Content-Type', 'text/event-stream']]),
+    body: {
+      getReader: () => ({
+        read: () =>
+          Promise.resolve(
+            index < chunks.length
+              ? { done: false, value: chunks[index++] }
+              : { done: true, value: undefined }
+          ),
+      }),
+    },
+  };
+};
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve));
+
+afterEach(() => {
+  fetch.mockReset();
+});
+
+it('sends a POST request and emits results from the event stream', async () => {
+  fetch.mockResolvedValueOnce(
+    makeStreamResponse([
+      'event: next\ndata: {"data":{"onMessage":1}}\n\n: keep-alive\n\nevent: ne',
+      'xt\ndata: {"data":{"onMessage":2}}\n\n',
+      'event: complete\n\n',
+    ])
+  );
+
+  const sink = makeSink();
+  makeSSETransport({
+    connectionParams: () => ({ authorization: 'Bearer abc' }),
+  })
+    .forwardSubscription(operation)
+    .subscribe(sink);
+
+  await nextTick();
+
+  expect(fetch).toHaveBeenCalledTimes(1);
+  const [url, fetchOptions] = fetch.mock.calls[0];
+  expect(url).toBe('http://localhost:3000/graphql');
+  expect(fetchOptions.method).toBe('POST');
+  expect(JSON.parse(fetchOptions.body)).toEqual({
+    query: operation.query,
+    variables: operation.variables,
+  });
+  expect(fetchOptions.headers).toEqual({
+    'content-type': 'application/json',
+    accept: 'text/event-stream',
+    'x-custom': 'yes',
+    authorization: 'Bearer abc',
+  });
+
+  expect(sink.next).toHaveBeenCalledTimes(2);
+  expect(sink.next).toHaveBeenNthCalledWith(1, { data: { onMessage: 1 } });
+  expect(sink.next).toHaveBeenNthCalledWith(2, { data: { onMessage: 2 } });
+  expect(sink.complete).toHaveBeenCalledTimes(1);
+});
+
+it('emits a single result for JSON responses', async () => {
+  fetch.mockResolvedValueOnce({
+    status: 200,
+    headers: new Map([['Content-Type', 'application/json']]),
+    json: () => Promise.resolve({ errors: [{ message: 'Not supported' }] }),
+  });
+
+  const sink = makeSink();
+  makeSSETransport().forwardSubscription(operation).subscribe(sink);
+  await nextTick();
+
+  expect(sink.next).toHaveBeenCalledWith({
+    errors: [{ message: 'Not supported' }],
+  });
+  expect(sink.complete).toHaveBeenCalledTimes(1);
+});
+
+it('retries when the stream ends unexpectedly', async () => {
+  fetch
+    .mockResolvedValueOnce(
+      makeStreamResponse(['data: {"data":{"onMessage":1}}\n\n'])
+    )
+    .mockResolvedValueOnce(makeStreamResponse(['event: complete\n\n']));
+
+  const sink = makeSink();
+  makeSSETransport({ retryDelay: 0 })
+    .forwardSubscription(operation)
+    .subscribe(sink);
+
+  await nextTick();
+  await nextTick();
+
+  expect(fetch).toHaveBeenCalledTimes(2);
+  expect(sink.next).toHaveBeenCalledTimes(1);
+  expect(sink.complete).toHaveBeenCalledTimes(1);
+  expect(sink.error).not.toHaveBeenCalled();
+});
+
+it('errors without retrying on client error responses', async () => {
+  fetch.mockResolvedValueOnce({
+    status: 401,
+    statusText: 'Unauthorized',
+  });
+
+  const sink = makeSink();
+  makeSSETransport({ retryDelay: 0 })
+    .forwardSubscription(operation)
+    .subscribe(sink);
+
+  await nextTick();
+
+  expect(fetch).toHaveBeenCalledTimes(1);
+  expect(sink.error).toHaveBeenCalledTimes(1);
+  expect(sink.error.mock.calls[0][0].message).toBe('Unauthorized');
+});
+
+it('stops reading the stream on unsubscribe', async () => {
+  fetch.mockResolvedValueOnce(
+    makeStreamResponse(['data: {"data":{"onMessage":1}}\n\n'])
+  );
+
+  const sink = makeSink();
+  makeSSETransport()
+    .forwardSubscription(operation)
+    .subscribe(sink)
+    .unsubscribe();
+
+  await nextTick();
+
+  expect(fetch).not.toHaveBeenCalled();
+  expect(sink.next).not.toHaveBeenCalled();
+  expect(sink.complete).not.toHaveBeenCalled();
+});
+
+it('completes all active subscriptions when it is disposed', async () => {
+  fetch.mockResolvedValueOnce(
+    makeStreamResponse(['data: {"data":{"onMessage":1}}\n\n'])
+  );
+
+  const sink = makeSink();
+  const transport = makeSSETransport({ retryDelay: 10 });
+  transport.forwardSubscription(operation).subscribe(sink);
+
+  // The stream has ended unexpectedly and a retry is scheduled
+  await nextTick();
+  expect(sink.next).toHaveBeenCalledTimes(1);
+
+  transport.dispose();
+  expect(sink.complete).toHaveBeenCalledTimes(1);
+
+  await new Promise(resolve => setTimeout(resolve, 20));
+  expect(fetch).toHaveBeenCalledTimes(1);
+
+  const lateSink = makeSink();
+  transport.forwardSubscription(operation).subscribe(lateSink);
+  expect(lateSink.error).toHaveBeenCalledTimes(1);
+  expect(fetch).toHaveBeenCalledTimes(1);
+});
+
+describe('with an HTTP server', () => {
+  let server: http.Server;
+  let url: string;
+  const responses: http.ServerResponse[] = [];
+
+  // Requests the server with Node's http module and exposes the response body as a stream reader
+  const httpFetch = (url: RequestInfo, init: RequestInit = {}) =>
+    new Promise<Response>((resolve, reject) => {
+      const request = http.request(
+        url as string,
+        { method: init.method, headers: init.headers as any },
+        response => {
+          const chunks = response[Symbol.asyncIterator]();
+          resolve({
+            status: response.statusCode,
+            statusText: response.statusMessage,
+            headers: {
+              get: (name: string) => response.headers[name.toLowerCase()],
+            },
+            body: { getReader: () => ({ read: () => chunks.next() }) },
+          } as any);
+        }
+      );
+
+      request.on('error', reject);
+      request.end(init.body);
+    });
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; !condition(); i++) {
+      if (i > 100) throw new Error('Timed out waiting for condition');
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(done => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const { variables } = JSON.parse(body);
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(
+          `event: next\ndata: {"data":{"onMessage":${variables.x}}}\n\n`
+        );
+        responses.push(res);
+      });
+    });
+
+    server.listen(0, () => {
+      url = `http://localhost:${(server.address() as any).port}/graphql`;
+      done();
+    });
+  });
+
+  afterEach(done => {
+    responses.splice(0).forEach(res => res.end());
+    server.close(done);
+  });
+
+  it('receives results and completes them when it is disposed', async () => {
+    const transport = makeSSETransport({ url });
+    const sink = makeSink();
+
+    transport
+      .forwardSubscription({
+        ...operation,
+        context: { ...operation.context, fetch: httpFetch },
+      })
+      .subscribe(sink);
+
+    await waitFor(() => sink.next.mock.calls.length > 0);
+    expect(sink.next).toHaveBeenCalledWith({ data: { onMessage: 1 } });
+
+    transport.dispose();
+    expect(sink.complete).toHaveBeenCalledTimes(1);
+    expect(sink.error).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,257 @@
+import { ExecutionResult } from '../types';
+import { noop } from '../utils';
+import {
+  ObservableLike,
+  SubscriptionForwarder,
+  SubscriptionOperation,
+} from '../exchanges/subscription';
+
+type Result = ExecutionResult & { extensions?: Record<string, any> };
+type ConnectionParams = Record<string, string>;
+
+export interface SSETransportOptions {
+  /** The URL of the SSE endpoint. Defaults to the operation's `url`. */
+  url?: string;
+  /** Headers (or a function returning them) that are sent along with each request. */
+  connectionParams?:
+    | ConnectionParams
+    | (() => ConnectionParams | Promise<ConnectionParams>);
+  /** The number of times the transport attempts to reconnect after a stream has ended unexpectedly. Defaults to `5`. */
+  retryAttempts?: number;
+  /** The initial delay in milliseconds before reconnecting, which doubles with each attempt. Defaults to `1000`. */
+  retryDelay?: number;
+}
+
+export interface SSETransport {
+  /** Starts subscriptions as event streams and may be passed to the `subscriptionExchange`. */
+  forwardSubscription: SubscriptionForwarder;
+  /** Aborts all event streams, stops all reconnection attempts, and completes all active subscriptions. */
+  dispose(): void;
+}
+
+interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+const decodeChunk = (
+  decoder: TextDecoder | null,
+  chunk: Uint8Array | string
+): string =>
+  typeof chunk === 'string'
+    ? chunk
+    : decoder
+    ? decoder.decode(chunk, { stream: true })
+    : String.fromCharCode.apply(null, chunk as any);
+
+const parseEvent = (message: string): SSEEvent | null => {
+  const lines = message.split('\n');
+  const event: SSEEvent = { event: 'next', data: '' };
+  let hasData = false;
+
+  for (let i = 0, l = lines.length; i < l; i++) {
+    const line = lines[i];
+    const colon = line.indexOf(':');
+    // Lines starting with a colon are comments, e.g. keep-alive messages
+    if (!line || colon === 0) continue;
+
+    const field = colon > -1 ? line.slice(0, colon) : line;
+    const value = colon > -1 ? line.slice(colon + 1).replace(/^ /, '') : '';
+    if (field === 'event') {
+      event.event = value;
+    } else if (field === 'data') {
+      event.data = hasData ? event.data + '\n' + value : value;
+      hasData = true;
+    }
+  }
+
+  return hasData || event.event === 'complete' ? event : null;
+};
+
+/** Creates a transport for the `subscriptionExchange` using the GraphQL over SSE protocol in distinct connections mode. */
+export const makeSSETransport = (opts?: SSETransportOptions): SSETransport => {
+  if (!opts) opts = {};
+
+  const retryAttempts =
+    opts.retryAttempts !== undefined ? opts.retryAttempts : 5;
+  const retryDelay = opts.retryDelay !== undefined ? opts.retryDelay : 1000;
+  const connectionParams = opts.connectionParams;
+  const urlOverride = opts.url;
+
+  // The active subscriptions are completed when the transport is disposed
+  const subscriptions: Set<() => void> = new Set();
+  let disposed = false;
+
+  const forwardSubscription = (
+    operation: SubscriptionOperation
+  ): ObservableLike<Result> => ({
+    subscribe(sink) {
+      if (disposed) {
+        sink.error(new Error('The transport has been disposed.'));
+        return { unsubscribe: noop };
+      }
+
+      const { context } = operation;
+      const url = urlOverride || context.url;
+      const fetcher = context.fetch || fetch;
+      const extraOptions =
+        typeof context.fetchOptions === 'function'
+          ? context.fetchOptions()
+          : context.fetchOptions || {};
+
+      let ended = false;
+      let fatal = false;
+      let retries = 0;
+      let retryTimeoutId: any;
+      let abortController: AbortController | null = null;
+
+      const end = () => {
+        ended = true;
+        subscriptions.delete(complete);
+        clearTimeout(retryTimeoutId);
+        if (abortController) abortController.abort();
+      };
+
+      const complete = () => {
+        end();
+        sink.complete();
+      };
+
+      const readStream = (response: Response): Promise<boolean> => {
+        const reader = response.body!.getReader();
+        const decoder =
+          typeof TextDecoder !== 'undefined' ? new TextDecoder() : null;
+
+        let buffer = '';
+
+        const read = (): Promise<boolean> =>
+          reader.read().then(({ done, value }) => {
+            if (ended) return true;
+            if (done) return false;
+
+            buffer += decodeChunk(decoder, value!).replace(/\r\n?/g, '\n');
+
+            let boundary: number;
+            while ((boundary = buffer.indexOf('\n\n')) > -1) {
+              const event = parseEvent(buffer.slice(0, boundary));
+              buffer = buffer.slice(boundary + 2);
+              if (!event) continue;
+
+              if (event.event === 'complete') {
+                return true;
+              } else if (event.event === 'next') {
+                retries = 0;
+                sink.next(JSON.parse(event.data));
+              }
+            }
+
+            return read();
+          });
+
+        return read();
+      };
+
+      const connect = () => {
+        const scheduleRetry = () => {
+          retryTimeoutId = setTimeout(
+            connect,
+            retryDelay * Math.pow(2, retries)
+          );
+          retries++;
+        };
+
+        abortController =
+          typeof AbortController !== 'undefined' ? new AbortController() : null;
+
+        Promise.resolve(
+          typeof connectionParams === 'function'
+            ? connectionParams()
+            : connectionParams
+        )
+          .then(params => {
+            if (ended) return true;
+
+            const fetchOptions: RequestInit = {
+              ...extraOptions,
+              method: 'POST',
+              body: JSON.stringify({
+                query: operation.query,
+                variables: operation.variables,
+              }),
+              headers: {
+                'content-type': 'application/json',
+                accept: 'text/event-stream',
+                ...(extraOptions.headers || {}),
+                ...(params || {}),
+              },
+            };
+
+            if (abortController) fetchOptions.signal = abortController.signal;
+
+            return fetcher(url, fetchOptions).then((response: Response) => {
+              if (response.status < 200 || response.status >= 300) {
+                // Client errors won't be fixed by retrying the request
+                fatal = response.status >= 400 && response.status < 500;
+                throw new Error(response.statusText);
+              }
+
+              const contentType =
+                (response.headers && response.headers.get('Content-Type')) ||
+                '';
+              // Servers may respond with a single JSON result instead of a stream
+              if (/application\/(graphql-response\+)?json/i.test(contentType)) {
+                return response.json().then((result: Result) => {
+                  if (!ended) sink.next(result);
+                  return true;
+                });
+              }
+
+              return readStream(response);
+            });
+          })
+          .then(
+            (isComplete: boolean) => {
+              if (ended) {
+                return;
+              } else if (!isComplete && retries < retryAttempts) {
+                scheduleRetry();
+              } else if (!isComplete) {
+                end();
+                sink.error(new Error('Event stream ended unexpectedly'));
+              } else {
+                complete();
+              }
+            },
+            (error: Error) => {
+              if (ended || error.name === 'AbortError') {
+                return;
+              } else if (!fatal && retries < retryAttempts) {
+                scheduleRetry();
+              } else {
+                end();
+                sink.error(error);
+              }
+            }
+          );
+      };
+
+      subscriptions.add(complete);
+      connect();
+
+      return {
+        unsubscribe() {
+          if (!ended) end();
+        },
+      };
+    },
+  });
+
+  return {
+    forwardSubscription,
+    dispose() {
+      disposed = true;
+      const active = Array.from(subscriptions);
+      for (let i = 0, l = active.length; i < l; i++) active[i]();
+    },
+  };
+};
@@ -0,0 +1,272 @@
+import WebSocket, { Server } from 'ws';
+import { makeWSTransport, GRAPHQL_TRANSPORT_WS_PROTOCOL } from './ws';
+import { SubscriptionOperation } from '../exchanges/subscription';
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  url: string;
+  protocol: string;
+  sent: any[] = [];
+  closed: { code: number; reason: string } | null = null;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+
+  constructor(url: string, protocol: string) {
+    this.url = url;
+    this.protocol = protocol;
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(code: number, reason: string) {
+    this.closed = { code, reason };
+  }
+
+  receive(message: object) {
+    this.onmessage!({ data: JSON.stringify(message) });
+  }
+
+  serverClose(code: number, reason = '') {
+    this.onclose!({ code, reason });
+  }
+}
+
+const operation: SubscriptionOperation = {
+  key: '1',
+  query: 'subscription { onMessage }',
+  variables: { x: 1 },
+  context: {} as any,
+};
+
+const makeSink = () => ({
+  next: jest.fn(),
+  error: jest.fn(),
+  complete: jest.fn(),
+});
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve));
+
+const openSocket = async (ws: FakeWebSocket) => {
+  ws.onopen!();
+  await nextTick();
+  ws.receive({ type: 'connection_ack' });
+};
+
+beforeEach(() => {
+  FakeWebSocket.instances = [];
+});
+
+it('connects lazily and subscribes after the connection is acknowledged', async () => {
+  const transport = makeWSTransport({
+    url: 'ws://localhost/graphql',
+    connectionParams: () => Promise.resolve({ token: 'abc' }),
+    webSocketImpl: FakeWebSocket,
+  });
+
+  expect(FakeWebSocket.instances).toHaveLength(0);
+
+  const sink = makeSink();
+  transport.forwardSubscription(operation).subscribe(sink);
+
+  const ws = FakeWebSocket.instances[0];
+  expect(ws.url).toBe('ws://localhost/graphql');
+  expect(ws.protocol).toBe(GRAPHQL_TRANSPORT_WS_PROTOCOL);
+
+  ws.onopen!();
+  await nextTick();
+  expect(ws.sent).toEqual([
+    { type: 'connection_init', payload: { token: 'abc' } },
+  ]);
+
+  ws.receive({ type: 'connection_ack' });
+  expect(ws.sent[1]).toEqual({
+    id: '0',
+    type: 'subscribe',
+    payload: { query: operation.query, variables: operation.variables },
+  });
+
+  ws.receive({ id: '0', type: 'next', payload: { data: { onMessage: 1 } } });
+  expect(sink.next).toHaveBeenCalledWith({ data: { onMessage: 1 } });
+
+  ws.receive({ id: '0', type: 'complete' });
+  expect(sink.complete).toHaveBeenCalledTimes(1);
+});
+
+it('emits errors as results and completes the subscription', async () => {
+  const transport = makeWSTransport({
+    url: 'ws://localhost/graphql',
+    webSocketImpl: FakeWebSocket,
+  });
+
+  const sink = makeSink();
+  transport.forwardSubscription(operation).subscribe(sink);
+  const ws = FakeWebSocket.instances[0];
+  await openSocket(ws);
+
+  ws.receive({ id: '0', type: 'error', payload: [{ message: 'Oops' }] });
+  expect(sink.next).toHaveBeenCalledWith({ errors: [{ message: 'Oops' }] });
+  expect(sink.complete).toHaveBeenCalledTimes(1);
+  expect(sink.error).not.toHaveBeenCalled();
+});
+
+it('responds to pings and sends complete messages on unsubscribe', async () => {
+  const transport = makeWSTransport({
+    url: 'ws://localhost/graphql',
+    webSocketImpl: FakeWebSocket,
+  });
+
+  const subscription = transport
+    .forwardSubscription(operation)
+    .subscribe(makeSink());
+  const ws = FakeWebSocket.instances[0];
+  await openSocket(ws);
+
+  ws.receive({ type: 'ping' });
+  expect(ws.sent[2]).toEqual({ type: 'pong' });
+
+  subscription.unsubscribe();
+  expect(ws.sent[3]).toEqual({ id: '0', type: 'complete' });
+  expect(ws.closed).toEqual({ code: 1000, reason: 'Normal Closure' });
+});
+
+it('reconnects and resubscribes after an unexpected close', async () => {
+  const transport = makeWSTransport({
+    url: 'ws://localhost/graphql',
+    retryDelay: 0,
+    webSocketImpl: FakeWebSocket,
+  });
+
+  const sink = makeSink();
+  transport.forwardSubscription(operation).subscribe(sink);
+  await openSocket(FakeWebSocket.instances[0]);
+
+  FakeWebSocket.instances[0].serverClose(1006);
+  await nextTick();
+
+  expect(FakeWebSocket.instances).toHaveLength(2);
+  const ws = FakeWebSocket.instances[1];
+  await openSocket(ws);
+
+  expect(ws.sent[1]).toMatchObject({ id: '0', type: 'subscribe' });
+  expect(sink.error).not.toHaveBeenCalled();
+});
+
+it('errors all subscriptions on fatal close codes', async () => {
+  const transport = makeWSTransport({
+    url: 'ws://localhost/graphql',
+    webSocketImpl: FakeWebSocket,
+  });
+
+  const sink = makeSink();
+  transport.forwardSubscription(operation).subscribe(sink);
+  await openSocket(FakeWebSocket.instances[0]);
+
+  FakeWebSocket.instances[0].serverClose(4403, 'Forbidden');
+  expect(sink.error).toHaveBeenCalledTimes(1);
+  expect(sink.error.mock.calls[0][0].message).toBe(
+    'Socket closed with event 4403: Forbidden'
+  );
+  expect(FakeWebSocket.instances).toHaveLength(1);
+});
+
+it('errors all subscriptions once retries are exhausted', async () => {
+  const transport = makeWSTransport({
+    url: 'ws://localhost/graphql',
+    retryAttempts: 0,
+    webSocketImpl: FakeWebSocket,
+  });
+
+  const sink = makeSink();
+  transport.forwardSubscription(operation).subscribe(sink);
+  FakeWebSocket.instances[0].serverClose(1006);
+
+  expect(sink.error).toHaveBeenCalledTimes(1);
+});
+
+it('completes all active subscriptions when it is disposed', async () => {
+  const transport = makeWSTransport({
+    url: 'ws://localhost/graphql',
+    webSocketImpl: FakeWebSocket,
+  });
+
+  const sinks = [makeSink(), makeSink()];
+  transport.forwardSubscription(operation).subscribe(sinks[0]);
+  transport.forwardSubscription(operation).subscribe(sinks[1]);
+  await openSocket(FakeWebSocket.instances[0]);
+
+  transport.dispose();
+  expect(FakeWebSocket.instances[0].closed).toEqual({
+    code: 1000,
+    reason: 'Normal Closure',
+  });
+  expect(sinks[0].complete).toHaveBeenCalledTimes(1);
+  expect(sinks[1].complete).toHaveBeenCalledTimes(1);
+
+  const sink = makeSink();
+  transport.forwardSubscription(operation).subscribe(sink);
+  expect(sink.error).toHaveBeenCalledTimes(1);
+  expect(FakeWebSocket.instances).toHaveLength(1);
+});
+
+describe('with a WebSocket server', () => {
+  let server: Server;
+  let url: string;
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; !condition(); i++) {
+      if (i > 100) throw new Error('Timed out waiting for condition');
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(done => {
+    server = new Server({ port: 0 }, () => {
+      url = `ws://localhost:${(server.address() as any).port}/graphql`;
+      done();
+    });
+
+    server.on('connection', socket => {
+      socket.on('message', data => {
+        const message = JSON.parse(data as string);
+        if (message.type === 'connection_init') {
+          socket.send(JSON.stringify({ type: 'connection_ack' }));
+        } else if (message.type === 'subscribe') {
+          socket.send(
+            JSON.stringify({
+              id: message.id,
+              type: 'next',
+              payload: { data: { onMessage: message.payload.variables.x } },
+            })
+          );
+        }
+      });
+    });
+  });
+
+  afterEach(done => {
+    server.close(done);
+  });
+
+  it('receives results and completes them when it is disposed', async () => {
+    const transport = makeWSTransport({ url, webSocketImpl: WebSocket });
+
+    const sink = makeSink();
+    transport.forwardSubscription(operation).subscribe(sink);
+    await waitFor(() => sink.next.mock.calls.length > 0);
+    expect(sink.next).toHaveBeenCalledWith({ data: { onMessage: 1 } });
+
+    const closed = new Promise(resolve => {
+      server.clients.forEach(socket => socket.on('close', resolve));
+    });
+
+    transport.dispose();
+    expect(sink.complete).toHaveBeenCalledTimes(1);
+    expect(sink.error).not.toHaveBeenCalled();
+    expect(await closed).toBe(1000);
+  });
+});
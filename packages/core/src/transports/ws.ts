@@ -0,0 +1,268 @@
+import { ExecutionResult } from '../types';
+import { noop } from '../utils';
+import {
+  ObservableLike,
+  ObserverLike,
+  SubscriptionForwarder,
+  SubscriptionOperation,
+} from '../exchanges/subscription';
+
+type Result = ExecutionResult & { extensions?: Record<string, any> };
+type ConnectionParams = Record<string, unknown>;
+
+/** The WebSocket subprotocol of the graphql-transport-ws protocol */
+export const GRAPHQL_TRANSPORT_WS_PROTOCOL = 'graphql-transport-ws';
+
+interface Message {
+  id?: string;
+  type:
+    | 'connection_init'
+    | 'connection_ack'
+    | 'ping'
+    | 'pong'
+    | 'subscribe'
+    | 'next'
+    | 'error'
+    | 'complete';
+  payload?: any;
+}
+
+interface ActiveSubscription {
+  id: string;
+  operation: SubscriptionOperation;
+  sink: ObserverLike<Result>;
+}
+
+export interface WSTransportOptions {
+  /** The URL of the WebSocket server, e.g. `wss://my-target:8080/graphql`. */
+  url: string;
+  /** A payload (or a function returning it) that is sent along with the `connection_init` message. */
+  connectionParams?:
+    | ConnectionParams
+    | (() => ConnectionParams | Promise<ConnectionParams>);
+  /** Only connects once the first subscription starts and closes after the last one ends. Defaults to `true`. */
+  lazy?: boolean;
+  /** The number of times the transport attempts to reconnect after the socket has closed unexpectedly. Defaults to `5`. */
+  retryAttempts?: number;
+  /** The initial delay in milliseconds before reconnecting, which doubles with each attempt. Defaults to `1000`. */
+  retryDelay?: number;
+  /** An interval in milliseconds in which `ping` messages are sent to the server. Disabled by default. */
+  keepAlive?: number;
+  /** An alternative WebSocket implementation, e.g. for Node.js. */
+  webSocketImpl?: any;
+}
+
+export interface WSTransport {
+  /** Starts subscriptions on the WebSocket and may be passed to the `subscriptionExchange`. */
+  forwardSubscription: SubscriptionForwarder;
+  /** Closes the socket, stops all reconnection attempts, and completes all active subscriptions. */
+  dispose(): void;
+}
+
+// Close codes in the 4400 range signal errors that won't be fixed by reconnecting
+const isFatalCloseCode = (code: number) => code >= 4400 && code < 4500;
+
+/** Creates a transport for the `subscriptionExchange` using the graphql-transport-ws protocol. */
+export const makeWSTransport = (opts: WSTransportOptions): WSTransport => {
+  const WebSocketImpl =
+    opts.webSocketImpl ||
+    (typeof WebSocket !== 'undefined' ? WebSocket : undefined);
+  const lazy = opts.lazy !== false;
+  const retryAttempts =
+    opts.retryAttempts !== undefined ? opts.retryAttempts : 5;
+  const retryDelay = opts.retryDelay !== undefined ? opts.retryDelay : 1000;
+
+  const subscriptions: Map<string, ActiveSubscription> = new Map();
+
+  let socket: WebSocket | null = null;
+  let acknowledged = false;
+  let disposed = false;
+  let retries = 0;
+  let nextId = 0;
+  let retryTimeoutId: any;
+  let keepAliveId: any;
+
+  const send = (message: Message) => {
+    if (socket) socket.send(JSON.stringify(message));
+  };
+
+  const sendSubscribe = ({ id, operation }: ActiveSubscription) => {
+    send({
+      id,
+      type: 'subscribe',
+      payload: {
+        query: operation.query,
+        variables: operation.variables,
+      },
+    });
+  };
+
+  const errorAll = (error: Error) => {
+    const active = Array.from(subscriptions.values());
+    subscriptions.clear();
+    for (let i = 0, l = active.length; i < l; i++) active[i].sink.error(error);
+  };
+
+  const closeSocket = (code: number, reason: string) => {
+    const ws = socket;
+    socket = null;
+    acknowledged = false;
+    clearInterval(keepAliveId);
+    if (ws) ws.close(code, reason);
+  };
+
+  const onMessage = (message: Message) => {
+    const subscription =
+      message.id !== undefined ? subscriptions.get(message.id) : undefined;
+
+    switch (message.type) {
+      case 'connection_ack':
+        acknowledged = true;
+        retries = 0;
+        subscriptions.forEach(sendSubscribe);
+        if (opts.keepAlive) {
+          keepAliveId = setInterval(() => {
+            send({ type: 'ping' });
+          }, opts.keepAlive);
+        }
+        break;
+      case 'ping':
+        send({ type: 'pong', payload: message.payload });
+        break;
+      case 'next':
+        if (subscription) subscription.sink.next(message.payload);
+        break;
+      case 'error':
+        if (subscription) {
+          subscriptions.delete(subscription.id);
+          subscription.sink.next({ errors: message.payload } as Result);
+          subscription.sink.complete();
+        }
+        break;
+      case 'complete':
+        if (subscription) {
+          subscriptions.delete(subscription.id);
+          subscription.sink.complete();
+        }
+        break;
+    }
+  };
+
+  const connect = () => {
+    if (socket || disposed) return;
+
+    if (!WebSocketImpl) {
+      return errorAll(new Error('No WebSocket implementation is available.'));
+    }
+
+    const ws: WebSocket = (socket = new WebSocketImpl(
+      opts.url,
+      GRAPHQL_TRANSPORT_WS_PROTOCOL
+    ));
+
+    ws.onopen = () => {
+      Promise.resolve(
+        typeof opts.connectionParams === 'function'
+          ? opts.connectionParams()
+          : opts.connectionParams
+      ).then(
+        payload => {
+          if (socket === ws) send({ type: 'connection_init', payload });
+        },
+        (error: Error) => {
+          if (socket === ws) {
+            closeSocket(4400, 'Invalid connection params');
+            errorAll(error);
+          }
+        }
+      );
+    };
+
+    ws.onmessage = (event: MessageEvent) => {
+      if (socket !== ws) return;
+
+      let message: Message;
+      try {
+        message = JSON.parse(event.data);
+      } catch (_error) {
+        closeSocket(4400, 'Invalid message received');
+        return errorAll(new Error('Invalid message received'));
+      }
+
+      onMessage(message);
+    };
+
+    ws.onclose = (event: CloseEvent) => {
+      if (socket !== ws) return;
+
+      socket = null;
+      acknowledged = false;
+      clearInterval(keepAliveId);
+
+      if (disposed || (lazy && !subscriptions.size)) {
+        return;
+      } else if (isFatalCloseCode(event.code) || retries >= retryAttempts) {
+        errorAll(
+          new Error(
+            `Socket closed with event ${event.code}` +
+              (event.reason ? `: ${event.reason}` : '')
+          )
+        );
+      } else {
+        // Reconnect with an exponential backoff and resubscribe once acknowledged
+        retryTimeoutId = setTimeout(connect, retryDelay * Math.pow(2, retries));
+        retries++;
+      }
+    };
+  };
+
+  const forwardSubscription = (
+    operation: SubscriptionOperation
+  ): ObservableLike<Result> => ({
+    subscribe(sink) {
+      if (disposed) {
+        sink.error(new Error('The transport has been disposed.'));
+        return { unsubscribe: noop };
+      }
+
+      const subscription: ActiveSubscription = {
+        id: '' + nextId++,
+        operation,
+        sink,
+      };
+
+      subscriptions.set(subscription.id, subscription);
+      if (!socket) {
+        connect();
+      } else if (acknowledged) {
+        sendSubscribe(subscription);
+      }
+
+      return {
+        unsubscribe() {
+          if (subscriptions.delete(subscription.id)) {
+            if (acknowledged) send({ id: subscription.id, type: 'complete' });
+            if (lazy && !subscriptions.size) {
+              clearTimeout(retryTimeoutId);
+              closeSocket(1000, 'Normal Closure');
+            }
+          }
+        },
+      };
+    },
+  });
+
+  if (!lazy) connect();
+
+  return {
+    forwardSubscription,
+    dispose() {
+      disposed = true;
+      clearTimeout(retryTimeoutId);
+      const active = Array.from(subscriptions.values());
+      subscriptions.clear();
+      closeSocket(1000, 'Normal Closure');
+      for (let i = 0, l = active.length; i < l; i++) active[i].sink.complete();
+    },
+  };
+};
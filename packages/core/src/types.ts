@@ -17,39 +17,79 @@ export type RequestPolicy =
   | 'cache-first'
   | 'cache-only'
   | 'network-only'
-  | 'cache-and-network';
+  | 'cache-and-network'
+  | 'cache-first-if-allowed'
+  | 'cache-and-network-if-stale'
+  | 'network-first';
 
 /** How the operation has */
 export type CacheOutcome = 'miss' | 'partial' | 'hit';
 
+/** A GraphQL `DocumentNode` with attached generics for its result data and variables. */
+export interface TypedDocumentNode<
+  Result = { [key: string]: any },
+  Variables = { [key: string]: any }
+> extends DocumentNode {
+  /** This is only used to infer the result and variables types and never exists at runtime. */
+  __apiType?: (variables: Variables) => Result;
+}
+
 /** A Graphql query, mutation, or subscription. */
-export interface GraphQLRequest {
+export interface GraphQLRequest<Data = any, Variables extends object = {}> {
   /** Unique identifier of the request. */
   key: number;
-  query: DocumentNode;
-  variables?: object;
+  query: DocumentNode | TypedDocumentNode<Data, Variables>;
+  variables?: Variables;
 }
 
 /** Metadata that is only available in development for devtools. */
 export interface OperationDebugMeta {
   source?: string;
   cacheOutcome?: CacheOutcome;
+  /** The paths of fields that were missing from a partial cache result. */
+  missingFields?: string[];
   networkLatency?: number;
   startTime?: number;
 }
 
+/** Hooks that fetch exchanges call before a request is sent and after a response has been received. */
+export interface FetchMiddleware {
+  /** Called with the request's URL and options, and may return new options for the request. */
+  onRequest?: (
+    operation: Operation,
+    url: string,
+    init: RequestInit
+  ) => RequestInit | void;
+  /** Called with the response and each result that's been read from it, and may return a new result. */
+  onResponse?: (
+    operation: Operation,
+    response: Response,
+    result: OperationResult
+  ) => OperationResult | void;
+}
+
 /** Additional metadata passed to [exchange]{@link Exchange} functions. */
 export interface OperationContext {
   [key: string]: any;
   additionalTypenames?: string[];
   fetch?: typeof fetch;
   fetchOptions?: RequestInit | (() => RequestInit);
+  /** Middleware that's called in order by fetch exchanges for each request and response. */
+  fetchMiddleware?: FetchMiddleware[];
   requestPolicy: RequestPolicy;
   url: string;
   pollInterval?: number;
   meta?: OperationDebugMeta;
   suspense?: boolean;
   preferGetMethod?: boolean;
+  /** The time in milliseconds after which the operation fails with a `TimeoutError`. */
+  timeout?: number;
+  /** An external signal which aborts the operation when it's aborted. */
+  signal?: AbortSignal;
+  /** The time in milliseconds after which cached results are refetched when the `cache-and-network-if-stale` policy is used. */
+  maxAge?: number;
+  /** The paths of fields that may be missing from partial results when the `cache-first-if-allowed` policy is used. */
+  allowedMissingFields?: string[];
 }
 
 /** A [query]{@link Query} or [mutation]{@link Mutation} with additional metadata for use during transmission. */
@@ -70,6 +110,14 @@ export interface OperationResult<Data = any> {
   extensions?: Record<string, any>;
   /** Optional stale flag added by exchanges that return stale results. */
   stale?: boolean;
+  /** Optional flag indicating that more incremental results (e.g. for `@defer` or `@stream`) will follow. */
+  hasNext?: boolean;
+  /** Optional flag added by exchanges that have queued a mutation to be replayed once the app is back online. */
+  queuedOffline?: boolean;
+  /** The HTTP status of the response, added by fetch exchanges. */
+  status?: number;
+  /** The HTTP headers of the response, added by fetch exchanges. */
+  headers?: Headers;
 }
 
 /** Input parameters for to an Exchange factory function. */
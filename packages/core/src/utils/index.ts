@@ -5,7 +5,9 @@ export * from './typenames';
 export * from './toSuspenseSource';
 export * from './stringifyVariables';
 export * from './maskTypename';
+export * from './shareResultData';
 export * from './withPromise';
+export * from './timeout';
 
 export const noop = () => {
   /* noop */
@@ -1,5 +1,6 @@
 import { parse, print } from 'graphql';
 import gql from 'graphql-tag';
+import { TypedDocumentNode } from '../types';
 import { createRequest } from './request';
 
 it('should hash identical queries identically', () => {
@@ -73,3 +74,14 @@ it('should return a valid query object with variables', () => {
     variables: { test: 5 },
   });
 });
+
+it('should infer data and variables types from TypedDocumentNodes', () => {
+  const doc: TypedDocumentNode<{ user: string }, { id: string }> = parse(
+    'query ($id: ID!) { user(id: $id) }'
+  );
+
+  const req = createRequest(doc, { id: '1' });
+  const variables: { id: string } = req.variables!;
+  expect(variables).toEqual({ id: '1' });
+  expect(req.query).toBe(doc);
+});
@@ -1,7 +1,12 @@
 import { DocumentNode, parse, print } from 'graphql';
 import { hash, phash } from './hash';
 import { stringifyVariables } from './stringifyVariables';
-import { GraphQLRequest, Operation, OperationContext } from '../types';
+import {
+  GraphQLRequest,
+  Operation,
+  OperationContext,
+  TypedDocumentNode,
+} from '../types';
 
 interface Documents {
   [key: number]: DocumentNode;
@@ -11,10 +16,10 @@ const hashQuery = (q: string): number => hash(q.replace(/[\s,]+/g, ' ').trim());
 
 const docs: Documents = Object.create(null);
 
-export const createRequest = (
-  q: string | DocumentNode,
-  vars?: object
-): GraphQLRequest => {
+export const createRequest = <Data = any, Variables extends object = {}>(
+  q: string | DocumentNode | TypedDocumentNode<Data, Variables>,
+  vars?: Variables
+): GraphQLRequest<Data, Variables> => {
   let key: number;
   let query: DocumentNode;
   if (typeof q === 'string') {
@@ -34,7 +39,7 @@ export const createRequest = (
   return {
     key: vars ? phash(key, stringifyVariables(vars)) >>> 0 : key,
     query,
-    variables: vars || {},
+    variables: vars || ({} as Variables),
   };
 };
 
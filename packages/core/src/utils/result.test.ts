@@ -1,5 +1,5 @@
 import { queryOperation } from '../test-utils';
-import { makeResult } from './result';
+import { makeResult, mergeResultPatch } from './result';
 
 describe('makeResult', () => {
   it('adds extensions and errors correctly', () => {
@@ -22,3 +22,62 @@ describe('makeResult', () => {
     );
   });
 });
+
+describe('mergeResultPatch', () => {
+  it('merges deferred data into the previous result by path', () => {
+    const prevResult = makeResult(queryOperation, {
+      data: { user: { id: '1', friends: [{ id: '2' }] } },
+    });
+
+    const result = mergeResultPatch(prevResult, {
+      incremental: [
+        { path: ['user'], data: { name: 'Clara' } },
+        { path: ['user', 'friends', 0], data: { name: 'Phil' } },
+      ],
+      hasNext: true,
+    });
+
+    expect(result.hasNext).toBe(true);
+    expect(result.data).toEqual({
+      user: { id: '1', name: 'Clara', friends: [{ id: '2', name: 'Phil' }] },
+    });
+    // The previous result must not be mutated
+    expect(prevResult.data).toEqual({
+      user: { id: '1', friends: [{ id: '2' }] },
+    });
+  });
+
+  it('appends streamed items to lists', () => {
+    const prevResult = makeResult(queryOperation, {
+      data: { todos: [{ id: '1' }] },
+    });
+
+    const result = mergeResultPatch(prevResult, {
+      incremental: [{ path: ['todos', 1], items: [{ id: '2' }, { id: '3' }] }],
+      hasNext: false,
+    });
+
+    expect(result.hasNext).toBe(false);
+    expect(result.data).toEqual({
+      todos: [{ id: '1' }, { id: '2' }, { id: '3' }],
+    });
+  });
+
+  it('accepts single patches and collects their errors', () => {
+    const prevResult = makeResult(queryOperation, {
+      data: { user: { id: '1' } },
+    });
+
+    const result = mergeResultPatch(prevResult, {
+      path: ['user'],
+      data: { name: null },
+      errors: [{ message: 'Oops' }],
+      hasNext: false,
+    });
+
+    expect(result.data).toEqual({ user: { id: '1', name: null } });
+    expect(result.error).toMatchInlineSnapshot(
+      `[CombinedError: [GraphQL] Oops]`
+    );
+  });
+});
@@ -31,3 +31,83 @@ export const makeErrorResult = (
   }),
   extensions: undefined,
 });
+
+const deepMerge = (target: any, source: any): any => {
+  if (
+    typeof target === 'object' &&
+    target !== null &&
+    typeof source === 'object' &&
+    source !== null
+  ) {
+    const merged = Array.isArray(target) ? target.slice() : { ...target };
+    for (const key in source) merged[key] = deepMerge(merged[key], source[key]);
+    return merged;
+  }
+
+  return source;
+};
+
+/** Merges an incremental `@defer` or `@stream` payload into the previous result by `path`. */
+export const mergeResultPatch = (
+  prevResult: OperationResult,
+  patch: any,
+  response?: any
+): OperationResult => {
+  const errors = prevResult.error ? prevResult.error.graphQLErrors.slice() : [];
+  // Older versions of the incremental delivery proposal sent a single patch
+  // with a `path` instead of an `incremental` list
+  const incremental: any[] = Array.isArray(patch.incremental)
+    ? patch.incremental
+    : 'path' in patch
+    ? [patch]
+    : [];
+
+  let extensions = prevResult.extensions;
+  if (typeof patch.extensions === 'object' && patch.extensions) {
+    extensions = { ...extensions, ...patch.extensions };
+  }
+
+  // The data is copied along the path of each patch, so that previous results aren't mutated
+  const root = { data: prevResult.data };
+  for (let i = 0, l = incremental.length; i < l; i++) {
+    const part = incremental[i];
+    if (Array.isArray(part.errors)) errors.push(...part.errors);
+    if (typeof part.extensions === 'object' && part.extensions) {
+      extensions = { ...extensions, ...part.extensions };
+    }
+
+    const path: Array<string | number> = part.path || [];
+    // Streamed items are inserted into the list starting at the path's last index
+    const isStream = Array.isArray(part.items);
+    const depth = isStream ? path.length - 1 : path.length;
+
+    let target: any = root;
+    let prop: string | number = 'data';
+    for (let j = 0; j < depth; j++) {
+      const value = target[prop];
+      target = target[prop] = Array.isArray(value)
+        ? value.slice()
+        : { ...value };
+      prop = path[j];
+    }
+
+    if (isStream) {
+      const list = (target[prop] = (target[prop] || []).slice());
+      const startIndex = +path[path.length - 1];
+      for (let j = 0, k = part.items.length; j < k; j++)
+        list[startIndex + j] = deepMerge(list[startIndex + j], part.items[j]);
+    } else if (part.data !== undefined) {
+      target[prop] = deepMerge(target[prop], part.data);
+    }
+  }
+
+  return {
+    operation: prevResult.operation,
+    data: root.data,
+    error: errors.length
+      ? new CombinedError({ graphQLErrors: errors, response })
+      : undefined,
+    extensions,
+    hasNext: !!patch.hasNext,
+  };
+};
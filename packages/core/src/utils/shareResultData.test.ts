@@ -0,0 +1,61 @@
+import { maskTypename } from './maskTypename';
+import { shareResultData } from './shareResultData';
+
+it('returns the previous data when the next data is deeply equal', () => {
+  const prev = { __typename: 'Query', todos: [{ id: 1 }], count: 1 };
+  const next = { __typename: 'Query', todos: [{ id: 1 }], count: 1 };
+  expect(shareResultData(prev, next)).toBe(prev);
+});
+
+it('reuses unchanged objects and arrays of the previous data', () => {
+  const prev = {
+    todos: [{ id: 1 }, { id: 2 }],
+    author: { name: 'Author', tags: ['a'] },
+  };
+  const next = {
+    todos: [{ id: 1 }, { id: 3 }],
+    author: { name: 'Author', tags: ['a'] },
+  };
+
+  const result = shareResultData(prev, next);
+  expect(result).toEqual(next);
+  expect(result).not.toBe(prev);
+  expect(result.todos).not.toBe(prev.todos);
+  expect(result.todos[0]).toBe(prev.todos[0]);
+  expect(result.todos[1]).toBe(next.todos[1]);
+  expect(result.author).toBe(prev.author);
+});
+
+it('detects added, removed and changed keys', () => {
+  expect(shareResultData({ a: 1 }, { a: 1, b: 2 })).toEqual({ a: 1, b: 2 });
+  expect(shareResultData({ a: 1, b: 2 }, { a: 1 })).toEqual({ a: 1 });
+  expect(shareResultData({ a: undefined }, { b: undefined })).toEqual({
+    b: undefined,
+  });
+  expect(shareResultData([1, 2], [1])).toEqual([1]);
+  expect(shareResultData({ a: null }, { a: {} })).toEqual({ a: {} });
+});
+
+it('returns the next data for values that are not plain objects', () => {
+  const date = new Date(0);
+  const next = { date: new Date(0) };
+  expect(shareResultData({ date }, next)).toBe(next);
+  expect(shareResultData(undefined, next)).toBe(next);
+  expect(shareResultData(next, null)).toBe(null);
+});
+
+it('compares and keeps masked typenames', () => {
+  const prev = maskTypename({ __typename: 'Todo', id: 1, author: null });
+  const next = maskTypename({ __typename: 'Note', id: 1, author: null });
+  const result = shareResultData(prev, next);
+
+  expect(result).not.toBe(prev);
+  expect(result.__typename).toBe('Note');
+  expect(Object.keys(result)).toEqual(['id', 'author']);
+  expect(
+    shareResultData(
+      prev,
+      maskTypename({ __typename: 'Todo', id: 1, author: null })
+    )
+  ).toBe(prev);
+});
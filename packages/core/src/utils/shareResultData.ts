@@ -0,0 +1,47 @@
+const isPlainObject = (x: any): boolean => {
+  if (!x || typeof x !== 'object') return false;
+  const proto = Object.getPrototypeOf(x);
+  return proto === Object.prototype || proto === null;
+};
+
+/** Reuses all parts of the previous data that are deeply equal to the next data, and returns the previous data itself when nothing has changed. */
+export const shareResultData = (prev: any, next: any): any => {
+  if (prev === next) {
+    return prev;
+  } else if (Array.isArray(prev) && Array.isArray(next)) {
+    let isEqual = prev.length === next.length;
+    let isShared = false;
+    const result = new Array(next.length);
+    for (let i = 0, l = next.length; i < l; i++) {
+      result[i] = shareResultData(prev[i], next[i]);
+      if (result[i] !== prev[i]) isEqual = false;
+      if (result[i] !== next[i]) isShared = true;
+    }
+
+    return isEqual ? prev : isShared ? result : next;
+  } else if (!isPlainObject(prev) || !isPlainObject(next)) {
+    return next;
+  }
+
+  const keys = Object.keys(next);
+  // Masked objects have a non-enumerable __typename, which has to be kept
+  const typename = Object.getOwnPropertyDescriptor(next, '__typename');
+  let isEqual =
+    keys.length === Object.keys(prev).length &&
+    prev.__typename === next.__typename;
+  let isShared = false;
+
+  const result = {};
+  if (typename && !typename.enumerable) {
+    Object.defineProperty(result, '__typename', typename);
+  }
+
+  for (let i = 0, l = keys.length; i < l; i++) {
+    const key = keys[i];
+    result[key] = shareResultData(prev[key], next[key]);
+    if (result[key] !== prev[key] || !(key in prev)) isEqual = false;
+    if (result[key] !== next[key]) isShared = true;
+  }
+
+  return isEqual ? prev : isShared ? result : next;
+};
@@ -32,6 +32,13 @@ it('stringifies dates correctly', () => {
   expect(stringifyVariables(date)).toBe(`"${date.toJSON()}"`);
 });
 
+it('stringifies bigints as strings', () => {
+  expect(stringifyVariables(BigInt('9007199254740993'))).toBe(
+    '"9007199254740993"'
+  );
+  expect(stringifyVariables({ id: BigInt(1) })).toBe('{"id":"1"}');
+});
+
 it('stringifies dictionaries (Object.create(null)) correctly', () => {
   expect(stringifyVariables(Object.create(null))).toBe('{}');
 });
@@ -4,6 +4,9 @@ const cache = new WeakMap();
 const stringify = (x: any): string => {
   if (x === null || seen.has(x)) {
     return 'null';
+  } else if (typeof x === 'bigint') {
+    // BigInts can't be serialized as JSON, so they're stored as strings
+    return JSON.stringify(x.toString());
   } else if (typeof x !== 'object') {
     return JSON.stringify(x) || '';
   } else if (x.toJSON) {
@@ -0,0 +1,86 @@
+import { Source, make, pipe, onEnd, subscribe } from 'wonka';
+import { Operation, OperationResult } from '../types';
+import { makeErrorResult } from './result';
+
+/** The `networkError` of a result whose operation has exceeded its `context.timeout`. */
+export class TimeoutError extends Error {
+  public name: string;
+  public timeout: number;
+
+  constructor(timeout: number) {
+    super(`The operation timed out after ${timeout}ms.`);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+const makeAbortError = (): Error => {
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  return error;
+};
+
+/** Ends an operation's results source early with an error result once its `context.timeout` expires or its `context.signal` is aborted. */
+export const withTimeout = (operation: Operation) => (
+  source: Source<OperationResult>
+): Source<OperationResult> => {
+  const { timeout, signal } = operation.context;
+  if (!timeout && !signal) return source;
+
+  return make<OperationResult>(({ next, complete }) => {
+    if (signal && signal.aborted) {
+      next(makeErrorResult(operation, makeAbortError()));
+      complete();
+      return () => {
+        /* noop */
+      };
+    }
+
+    let ended = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const cleanup = () => {
+      ended = true;
+      if (timeoutId !== undefined) clearTimeout(timeoutId);
+      if (signal) signal.removeEventListener('abort', onAbort);
+    };
+
+    const abort = (error: Error) => {
+      if (!ended) {
+        cleanup();
+        // Unsubscribing from the source also aborts the underlying request
+        unsubscribe();
+        next(makeErrorResult(operation, error));
+        complete();
+      }
+    };
+
+    const onAbort = () => abort(makeAbortError());
+
+    if (timeout) {
+      timeoutId = setTimeout(() => abort(new TimeoutError(timeout)), timeout);
+    }
+
+    if (signal) {
+      signal.addEventListener('abort', onAbort);
+    }
+
+    const { unsubscribe } = pipe(
+      source,
+      onEnd(() => {
+        if (!ended) {
+          cleanup();
+          complete();
+        }
+      }),
+      subscribe(next)
+    );
+
+    return () => {
+      if (!ended) {
+        cleanup();
+        unsubscribe();
+      }
+    };
+  });
+};
@@ -85,6 +85,18 @@ describe('formatTypeNames', () => {
                   "
             `);
   });
+
+  it('strips client-only directives prefixed with an underscore', () => {
+    expect(
+      formatTypeNames(
+        `mutation { addTodo @_append(to: "Query.todos") { id text @include(if: true) } }`
+      )
+    ).toBe(
+      print(
+        parse(`mutation { addTodo { id text @include(if: true) __typename } }`)
+      )
+    );
+  });
 });
 
 describe('collectTypesFromResponse', () => {
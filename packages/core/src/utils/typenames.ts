@@ -1,4 +1,5 @@
 import {
+  DirectiveNode,
   DocumentNode,
   FieldNode,
   InlineFragmentNode,
@@ -59,10 +60,15 @@ const formatNode = (node: FieldNode | InlineFragmentNode) => {
   }
 };
 
+// Directives prefixed with an underscore are client-only and are never sent to the API
+const formatDirective = (node: DirectiveNode) =>
+  node.name.value[0] === '_' ? null : undefined;
+
 export const formatDocument = (node: DocumentNode): DocumentNode => {
   const result = visit(node, {
     Field: formatNode,
     InlineFragment: formatNode,
+    Directive: formatDirective,
   });
 
   // Ensure that the hash of the resulting document won't suddenly change
@@ -1,9 +1,10 @@
 import React from 'react';
 import { shallow, configure } from 'enzyme';
 import Adapter from 'enzyme-adapter-react-16';
-import { Client } from 'urql';
+import { pipe, filter, map } from 'wonka';
+import { Client, createRequest, ssrExchange } from 'urql';
 
-import { withUrqlClient, NextUrqlPageContext } from '..';
+import { withUrqlClient, initUrqlClient, NextUrqlPageContext } from '..';
 import * as init from '../init-urql-client';
 
 beforeEach(jest.clearAllMocks);
@@ -108,6 +109,117 @@ describe('withUrqlClient', () => {
     });
   });
 
+  describe('with a normalized cache', () => {
+    const mockContext: NextUrqlPageContext = {
+      AppTree: MockAppTree,
+      pathname: '/',
+      query: {},
+      asPath: '/',
+      urqlClient: {} as Client,
+    };
+
+    const snapshot = { records: { Query: { __typename: 'Query' } }, links: {} };
+    let cache: any;
+
+    beforeEach(() => {
+      Component = withUrqlClient(
+        ssrExchange => {
+          cache = Object.assign(
+            () => ops$ =>
+              pipe(
+                ops$,
+                filter(() => false)
+              ),
+            {
+              extractData: jest.fn(() => snapshot),
+              restoreData: jest.fn(),
+            }
+          );
+
+          return {
+            url: 'http://localhost:3000',
+            exchanges: [cache, ssrExchange],
+          };
+        },
+        { ssr: true, normalizedCache: true }
+      )(MockApp);
+    });
+
+    it("should extract the cache's data instead of the ssrExchange's", async () => {
+      const props = await Component.getInitialProps(mockContext);
+      expect(cache.extractData).toHaveBeenCalledTimes(1);
+      expect(props.urqlCacheState).toBe(snapshot);
+      expect(props.urqlState).toBeUndefined();
+    });
+
+    it("should restore the cache's data when the component mounts", () => {
+      shallow(<Component urqlCacheState={snapshot} />);
+      expect(cache.restoreData).toHaveBeenCalledWith(snapshot);
+      expect(spyInitUrqlClient).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('with state from getStaticProps', () => {
+    const query = '{ user { name } }';
+    const request = createRequest(query);
+
+    beforeEach(() => {
+      Component = withUrqlClient(() => ({ url: 'http://localhost:3000' }), {
+        ssr: false,
+      })(MockApp);
+    });
+
+    afterEach(() => {
+      delete (global as any).window;
+    });
+
+    const getStaticProps = async () => {
+      const ssrCache = ssrExchange({ isClient: false });
+      const client = initUrqlClient({
+        url: 'http://localhost:3000',
+        exchanges: [
+          ssrCache,
+          () => ops$ =>
+            pipe(
+              ops$,
+              filter(operation => operation.operationName === 'query'),
+              map(operation => ({
+                operation,
+                data: { user: { name: 'Static' } },
+              }))
+            ),
+        ],
+      })!;
+
+      await client.query(query).toPromise();
+      return { props: { urqlState: ssrCache.extractData() } };
+    };
+
+    it('should rehydrate the extracted results', async () => {
+      const { props } = await getStaticProps();
+      expect(props.urqlState).toHaveProperty(`${request.key}`);
+
+      const tree = shallow(<Component {...props} />);
+      const client = tree.find(MockApp).props().urqlClient;
+      const result = await client.query(query).toPromise();
+      expect(result.data).toEqual({ user: { name: 'Static' } });
+    });
+
+    it('should restore results on client-side navigations', async () => {
+      const { props } = await getStaticProps();
+      const first = shallow(<Component />);
+      const client = first.find(MockApp).props().urqlClient;
+
+      // Subsequent pages are rendered on the client
+      (global as any).window = {};
+      const second = shallow(<Component {...props} />);
+      expect(second.find(MockApp).props().urqlClient).toBe(client);
+
+      const result = await client.query(query).toPromise();
+      expect(result.data).toEqual({ user: { name: 'Static' } });
+    });
+  });
+
   it('should not bind getInitialProps when there are no options', async () => {
     const mockContext: NextUrqlPageContext = {
       AppTree: MockAppTree,
@@ -1,2 +1,3 @@
 export { withUrqlClient } from './with-urql-client';
+export { initUrqlClient } from './init-urql-client';
 export * from './types';
@@ -5,7 +5,7 @@ let urqlClient: Client | null = null;
 
 export function initUrqlClient(
   clientOptions: ClientOptions,
-  canEnableSuspense: boolean
+  canEnableSuspense?: boolean
 ): Client | null {
   // Create a new Client for every server-side rendered request.
   // This ensures we reset the state for each rendered page.
@@ -14,7 +14,7 @@ export function initUrqlClient(
   if (isServer || !urqlClient) {
     urqlClient = createClient({
       ...clientOptions,
-      suspense: canEnableSuspense && (isServer || clientOptions.suspense),
+      suspense: !!canEnableSuspense && (isServer || clientOptions.suspense),
     });
     // Serialize the urqlClient to null on the client-side.
     // This ensures we don't share client and server instances of the urqlClient.
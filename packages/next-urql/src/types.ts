@@ -20,6 +20,8 @@ export type NextUrqlContext = NextUrqlPageContext | NextUrqlAppContext;
 
 export interface WithUrqlState {
   urqlState?: SSRData;
+  /** The normalized cache's data, which is passed instead of `urqlState` when `normalizedCache` is enabled */
+  urqlCacheState?: object;
 }
 
 export interface WithUrqlClient {
@@ -49,6 +51,14 @@ export interface SSRExchange extends Exchange {
   extractData(): SSRData;
 }
 
+/** A normalized cache exchange, like Graphcache's, which can extract and restore its data */
+export interface NormalizedCacheExchange extends Exchange {
+  extractData(): object;
+  restoreData(data: object): void;
+}
+
 export interface WithUrqlClientOptions {
   ssr?: boolean;
+  /** Serializes the data of a normalized cache in the exchanges, like Graphcache, instead of the ssrExchange's results */
+  normalizedCache?: boolean;
 }
@@ -3,6 +3,7 @@ import { NextPage, NextPageContext } from 'next';
 import NextApp, { AppContext } from 'next/app';
 import ssrPrepass from 'react-ssr-prepass';
 import {
+  Exchange,
   Provider,
   ssrExchange,
   dedupExchange,
@@ -14,6 +15,7 @@ import { initUrqlClient } from './init-urql-client';
 import {
   NextUrqlClientConfig,
   NextUrqlContext,
+  NormalizedCacheExchange,
   WithUrqlProps,
   WithUrqlClientOptions,
 } from './types';
@@ -22,6 +24,23 @@ function getDisplayName(Component: React.ComponentType<any>) {
   return Component.displayName || Component.name || 'Component';
 }
 
+// Normalized caches are recognised by the same methods that the ssrExchange has
+function getNormalizedCache(
+  exchanges: Exchange[],
+  ssr: Exchange
+): NormalizedCacheExchange | undefined {
+  for (let i = 0; i < exchanges.length; i++) {
+    const exchange = exchanges[i] as NormalizedCacheExchange;
+    if (
+      exchange !== ssr &&
+      typeof exchange.extractData === 'function' &&
+      typeof exchange.restoreData === 'function'
+    ) {
+      return exchange;
+    }
+  }
+}
+
 let ssr;
 
 export function withUrqlClient(
@@ -34,15 +53,25 @@ export function withUrqlClient(
       AppOrPage.getInitialProps || options!.ssr
     );
 
-    const withUrql = ({ urqlClient, urqlState, ...rest }: WithUrqlProps) => {
+    const withUrql = ({
+      urqlClient,
+      urqlState,
+      urqlCacheState,
+      ...rest
+    }: WithUrqlProps) => {
       // eslint-disable-next-line react-hooks/rules-of-hooks
       const client = React.useMemo(() => {
         if (urqlClient) {
           return urqlClient;
         }
 
-        if (!ssr || typeof window === 'undefined')
+        if (!ssr || typeof window === 'undefined') {
           ssr = ssrExchange({ initialState: urqlState });
+        } else if (urqlState) {
+          // Results from getStaticProps or getServerSideProps of pages that are
+          // navigated to on the client are added to the existing ssrExchange
+          ssr.restoreData(urqlState);
+        }
 
         const clientConfig = getClientConfig(ssr);
         if (!clientConfig.exchanges) {
@@ -55,9 +84,14 @@ export function withUrqlClient(
           ];
         }
 
+        if (urqlCacheState) {
+          const cache = getNormalizedCache(clientConfig.exchanges, ssr);
+          if (cache) cache.restoreData(urqlCacheState);
+        }
+
         // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
         return initUrqlClient(clientConfig, shouldBindGetInitialprops)!;
-      }, [urqlClient, urqlState]);
+      }, [urqlClient, urqlState, urqlCacheState]);
 
       return (
         <Provider value={client}>
@@ -115,9 +149,17 @@ export function withUrqlClient(
         // Run the prepass step on AppTree. This will run all urql queries on the server.
         await ssrPrepass(<AppTree {...appTreeProps} />);
 
+        // The normalized cache's data replaces the ssrExchange's results if it's enabled
+        const normalizedCache =
+          options!.normalizedCache &&
+          getNormalizedCache(clientConfig.exchanges, ssrCache);
+
         return {
           ...pageProps,
-          urqlState: ssrCache ? ssrCache.extractData() : undefined,
+          urqlState: normalizedCache ? undefined : ssrCache.extractData(),
+          urqlCacheState: normalizedCache
+            ? normalizedCache.extractData()
+            : undefined,
           urqlClient,
         };
       };
@@ -1,10 +1,14 @@
 import { VNode } from 'preact';
 import { DocumentNode } from 'graphql';
-import { OperationResult, OperationContext } from '@urql/core';
+import {
+  OperationResult,
+  OperationContext,
+  TypedDocumentNode,
+} from '@urql/core';
 import { useMutation, UseMutationState } from '../hooks';
 
 export interface MutationProps<T, V> {
-  query: DocumentNode | string;
+  query: DocumentNode | TypedDocumentNode<T, V> | string;
   children: (arg: MutationState<T, V>) => VNode<any>;
 }
 
@@ -15,7 +19,7 @@ export interface MutationState<T, V> extends UseMutationState<T> {
   ) => Promise<OperationResult<T>>;
 }
 
-export function Mutation<T = any, V = any>(
+export function Mutation<T = any, V extends object = any>(
   props: MutationProps<T, V>
 ): VNode<any> {
   const mutationState = useMutation<T, V>(props.query);
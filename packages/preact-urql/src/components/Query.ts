@@ -2,7 +2,7 @@ import { VNode } from 'preact';
 import { OperationContext } from '@urql/core';
 import { useQuery, UseQueryArgs, UseQueryState } from '../hooks';
 
-export interface QueryProps<T, V> extends UseQueryArgs<V> {
+export interface QueryProps<T, V> extends UseQueryArgs<V, T> {
   children: (arg: QueryState<T>) => VNode<any>;
 }
 
@@ -10,7 +10,9 @@ export interface QueryState<T> extends UseQueryState<T> {
   executeQuery: (opts?: Partial<OperationContext>) => void;
 }
 
-export function Query<T = any, V = any>(props: QueryProps<T, V>): VNode<any> {
+export function Query<T = any, V extends object = any>(
+  props: QueryProps<T, V>
+): VNode<any> {
   const queryState = useQuery<T, V>(props);
   return props.children({ ...queryState[0], executeQuery: queryState[1] });
 }
@@ -7,7 +7,7 @@ import {
   SubscriptionHandler,
 } from '../hooks';
 
-export interface SubscriptionProps<T, R, V> extends UseSubscriptionArgs<V> {
+export interface SubscriptionProps<T, R, V> extends UseSubscriptionArgs<V, T> {
   handler?: SubscriptionHandler<T, R>;
   children: (arg: SubscriptionState<R>) => VNode<any>;
 }
@@ -16,7 +16,7 @@ export interface SubscriptionState<T> extends UseSubscriptionState<T> {
   executeSubscription: (opts?: Partial<OperationContext>) => void;
 }
 
-export function Subscription<T = any, R = T, V = any>(
+export function Subscription<T = any, R = T, V extends object = any>(
   props: SubscriptionProps<T, R, V>
 ): VNode<any> {
   const subscriptionState = useSubscription<T, R, V>(props, props.handler);
@@ -1,6 +1,7 @@
 import { FunctionalComponent as FC, h } from 'preact';
 import { render, cleanup, act } from '@testing-library/preact';
-import { print } from 'graphql';
+import { parse, print } from 'graphql';
+import { TypedDocumentNode } from '@urql/core';
 import gql from 'graphql-tag';
 import { useMutation } from './useMutation';
 import { fromValue, delay, pipe } from 'wonka';
@@ -105,4 +106,35 @@ describe('useMutation', () => {
       expect(state).toHaveProperty('fetching', false);
     });
   });
+
+  it('infers data and variables types from typed documents', async () => {
+    const TypedMutation: TypedDocumentNode<
+      { example: string },
+      { id: number }
+    > = parse('mutation Example($id: Int) { example(id: $id) }');
+
+    const TypedUser: FC = () => {
+      const [s, e] = useMutation(TypedMutation);
+      const data: { example: string } | undefined = s.data;
+      // @ts-expect-error
+      const invalid: { example: number } | undefined = s.data;
+      execute = () => {
+        // @ts-expect-error
+        e({ id: '1' });
+        return e({ id: 1 });
+      };
+      return h('p', {}, [data, invalid]);
+    };
+
+    render(
+      h(Provider, {
+        value: client as any,
+        children: [h(TypedUser, {})],
+      })
+    );
+    const result = await execute();
+    const data: { example: string } | undefined = result.data;
+    expect(data).toBe(1);
+    expect(client.executeMutation).toBeCalledTimes(2);
+  });
 });
@@ -6,6 +6,7 @@ import {
   OperationContext,
   CombinedError,
   createRequest,
+  TypedDocumentNode,
 } from '@urql/core';
 import { useClient } from '../context';
 import { useImmediateState } from './useImmediateState';
@@ -27,8 +28,8 @@ export type UseMutationResponse<T, V> = [
   ) => Promise<OperationResult<T>>
 ];
 
-export const useMutation = <T = any, V = object>(
-  query: DocumentNode | string
+export const useMutation = <T = any, V extends object = object>(
+  query: DocumentNode | TypedDocumentNode<T, V> | string
 ): UseMutationResponse<T, V> => {
   const client = useClient();
 
@@ -44,10 +45,7 @@ export const useMutation = <T = any, V = object>(
       });
 
       return pipe(
-        client.executeMutation(
-          createRequest(query, variables as any),
-          context || {}
-        ),
+        client.executeMutation(createRequest(query, variables), context || {}),
         toPromise
       ).then(result => {
         setState({
@@ -1,6 +1,7 @@
 import { FunctionalComponent as FC, h } from 'preact';
 import { render, cleanup, act } from '@testing-library/preact';
-import { OperationContext } from '@urql/core';
+import { parse } from 'graphql';
+import { OperationContext, TypedDocumentNode } from '@urql/core';
 import { useQuery, UseQueryArgs, UseQueryState } from './useQuery';
 import { map, interval, pipe, never, onStart, onEnd, empty } from 'wonka';
 import { Provider } from '../context';
@@ -332,4 +333,29 @@ describe('useQuery', () => {
       expect(client.executeQuery).toBeCalledTimes(1);
     });
   });
+
+  it('infers data and variables types from typed documents', () => {
+    const TypedQuery: TypedDocumentNode<
+      { example: string },
+      { myVar: number }
+    > = parse('query Example($myVar: Int) { example(myVar: $myVar) }');
+
+    const TypedUser: FC = () => {
+      const [result] = useQuery({ query: TypedQuery, variables: { myVar: 1 } });
+      const data: { example: string } | undefined = result.data;
+      // @ts-expect-error
+      const invalid: { example: number } | undefined = result.data;
+      // @ts-expect-error
+      useQuery({ query: TypedQuery, variables: { myVar: '1' } });
+      return h('p', {}, [data, invalid]);
+    };
+
+    render(
+      h(Provider, {
+        value: client as any,
+        children: [h(TypedUser, {})],
+      })
+    );
+    expect(client.executeQuery).toBeCalledTimes(2);
+  });
 });
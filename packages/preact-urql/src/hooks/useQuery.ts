@@ -1,7 +1,12 @@
 import { DocumentNode } from 'graphql';
 import { pipe, subscribe, onEnd } from 'wonka';
 import { useRef, useCallback } from 'preact/hooks';
-import { OperationContext, RequestPolicy, CombinedError } from '@urql/core';
+import {
+  OperationContext,
+  RequestPolicy,
+  CombinedError,
+  TypedDocumentNode,
+} from '@urql/core';
 
 import { useClient } from '../context';
 import { useRequest } from './useRequest';
@@ -16,8 +21,8 @@ export const initialState: UseQueryState<any> = {
   extensions: undefined,
 };
 
-export interface UseQueryArgs<V> {
-  query: string | DocumentNode;
+export interface UseQueryArgs<V = object, T = any> {
+  query: string | DocumentNode | TypedDocumentNode<T, V>;
   variables?: V;
   requestPolicy?: RequestPolicy;
   pollInterval?: number;
@@ -41,8 +46,8 @@ export type UseQueryResponse<T> = [
 // eslint-disable-next-line
 export const noop = () => {};
 
-export const useQuery = <T = any, V = object>(
-  args: UseQueryArgs<V>
+export const useQuery = <T = any, V extends object = object>(
+  args: UseQueryArgs<V, T>
 ): UseQueryResponse<T> => {
   const unsubscribe = useRef<(_1?: any) => void>(noop);
   const client = useClient();
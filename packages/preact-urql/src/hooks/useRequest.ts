@@ -1,13 +1,13 @@
 import { DocumentNode } from 'graphql';
 import { useRef, useMemo } from 'preact/hooks';
-import { GraphQLRequest, createRequest } from '@urql/core';
+import { GraphQLRequest, TypedDocumentNode, createRequest } from '@urql/core';
 
 /** Creates a request from a query and variables but preserves reference equality if the key isn't changing */
-export const useRequest = (
-  query: string | DocumentNode,
-  variables?: any
-): GraphQLRequest => {
-  const prev = useRef<undefined | GraphQLRequest>(undefined);
+export const useRequest = <Data = any, Variables extends object = object>(
+  query: string | DocumentNode | TypedDocumentNode<Data, Variables>,
+  variables?: Variables
+): GraphQLRequest<Data> => {
+  const prev = useRef<undefined | GraphQLRequest<Data>>(undefined);
 
   return useMemo(() => {
     const request = createRequest(query, variables);
@@ -1,6 +1,7 @@
 import { FunctionalComponent as FC, h } from 'preact';
 import { render, cleanup, act } from '@testing-library/preact';
-import { OperationContext } from '@urql/core';
+import { parse } from 'graphql';
+import { OperationContext, TypedDocumentNode } from '@urql/core';
 import { useSubscription, UseSubscriptionState } from './useSubscription';
 import { merge, fromValue, never, empty } from 'wonka';
 import { Provider } from '../context';
@@ -180,4 +181,32 @@ describe('useSubscription', () => {
       expect(state).toMatchObject({ fetching: false });
     });
   });
+
+  it('infers data and variables types from typed documents', () => {
+    const TypedSubscription: TypedDocumentNode<
+      { example: string },
+      { id: number }
+    > = parse('subscription Example($id: Int) { example(id: $id) }');
+
+    const TypedUser: FC = () => {
+      const [result] = useSubscription({
+        query: TypedSubscription,
+        variables: { id: 1 },
+      });
+      const data: { example: string } | undefined = result.data;
+      // @ts-expect-error
+      const invalid: { example: number } | undefined = result.data;
+      // @ts-expect-error
+      useSubscription({ query: TypedSubscription, variables: { id: '1' } });
+      return h('p', {}, [data, invalid]);
+    };
+
+    render(
+      h(Provider, {
+        value: client as any,
+        children: [h(TypedUser, {})],
+      })
+    );
+    expect(client.executeSubscription).toBeCalledTimes(2);
+  });
 });
@@ -1,15 +1,15 @@
 import { DocumentNode } from 'graphql';
 import { useCallback, useRef } from 'preact/hooks';
 import { pipe, onEnd, subscribe } from 'wonka';
-import { CombinedError, OperationContext } from '@urql/core';
+import { CombinedError, OperationContext, TypedDocumentNode } from '@urql/core';
 import { useClient } from '../context';
 import { useRequest } from './useRequest';
 import { noop, initialState } from './useQuery';
 import { useImmediateEffect } from './useImmediateEffect';
 import { useImmediateState } from './useImmediateState';
 
-export interface UseSubscriptionArgs<V> {
-  query: DocumentNode | string;
+export interface UseSubscriptionArgs<V = object, T = any> {
+  query: DocumentNode | TypedDocumentNode<T, V> | string;
   variables?: V;
   pause?: boolean;
   context?: Partial<OperationContext>;
@@ -30,8 +30,8 @@ export type UseSubscriptionResponse<T> = [
   (opts?: Partial<OperationContext>) => void
 ];
 
-export const useSubscription = <T = any, R = T, V = object>(
-  args: UseSubscriptionArgs<V>,
+export const useSubscription = <T = any, R = T, V extends object = object>(
+  args: UseSubscriptionArgs<V, T>,
   handler?: SubscriptionHandler<T, R>
 ): UseSubscriptionResponse<R> => {
   const unsubscribe = useRef<(_1?: any) => void>(noop);
@@ -57,7 +57,7 @@ export const useSubscription = <T = any, R = T, V = object>(
       setState(s => ({ ...s, fetching: true }));
 
       const result = pipe(
-        client.executeSubscription(request, {
+        client.executeSubscription<any>(request, {
           ...args.context,
           ...opts,
         }),
@@ -1,10 +1,14 @@
 import { ReactElement } from 'react';
 import { DocumentNode } from 'graphql';
-import { OperationResult, OperationContext } from '@urql/core';
+import {
+  OperationResult,
+  OperationContext,
+  TypedDocumentNode,
+} from '@urql/core';
 import { useMutation, UseMutationState } from '../hooks';
 
 export interface MutationProps<T, V> {
-  query: DocumentNode | string;
+  query: DocumentNode | TypedDocumentNode<T, V> | string;
   children: (arg: MutationState<T, V>) => ReactElement<any>;
 }
 
@@ -15,7 +19,7 @@ export interface MutationState<T, V> extends UseMutationState<T> {
   ) => Promise<OperationResult<T>>;
 }
 
-export function Mutation<T = any, V = any>(
+export function Mutation<T = any, V extends object = any>(
   props: MutationProps<T, V>
 ): ReactElement<any> {
   const [state, executeMutation] = useMutation<T, V>(props.query);
@@ -2,7 +2,7 @@ import { ReactElement } from 'react';
 import { OperationContext } from '@urql/core';
 import { useQuery, UseQueryArgs, UseQueryState } from '../hooks';
 
-export interface QueryProps<T, V> extends UseQueryArgs<V> {
+export interface QueryProps<T, V> extends UseQueryArgs<V, T> {
   children: (arg: QueryState<T>) => ReactElement<any>;
 }
 
@@ -10,7 +10,7 @@ export interface QueryState<T> extends UseQueryState<T> {
   executeQuery: (opts?: Partial<OperationContext>) => void;
 }
 
-export function Query<T = any, V = any>(
+export function Query<T = any, V extends object = any>(
   props: QueryProps<T, V>
 ): ReactElement<any> {
   const [state, executeQuery] = useQuery<T, V>(props);
@@ -8,7 +8,7 @@ import {
   SubscriptionHandler,
 } from '../hooks';
 
-export interface SubscriptionProps<T, R, V> extends UseSubscriptionArgs<V> {
+export interface SubscriptionProps<T, R, V> extends UseSubscriptionArgs<V, T> {
   handler?: SubscriptionHandler<T, R>;
   children: (arg: SubscriptionState<R>) => ReactElement<any>;
 }
@@ -17,7 +17,7 @@ export interface SubscriptionState<T> extends UseSubscriptionState<T> {
   executeSubscription: (opts?: Partial<OperationContext>) => void;
 }
 
-export function Subscription<T = any, R = T, V = any>(
+export function Subscription<T = any, R = T, V extends object = any>(
   props: SubscriptionProps<T, R, V>
 ): ReactElement<any> {
   const [state, executeSubscription] = useSubscription<T, R, V>(
@@ -15,10 +15,11 @@ jest.mock('../context', () => {
   };
 });
 
-import { print } from 'graphql';
+import { parse, print } from 'graphql';
 import gql from 'graphql-tag';
 import React, { FC } from 'react';
 import renderer, { act } from 'react-test-renderer';
+import { TypedDocumentNode } from '@urql/core';
 
 import { useClient } from '../context';
 import { useMutation } from './useMutation';
@@ -146,3 +147,29 @@ describe('on subscription update', () => {
     expect(state).toHaveProperty('fetching', false);
   });
 });
+
+it('infers data and variables types from typed documents', async () => {
+  const TypedMutation: TypedDocumentNode<
+    { example: string },
+    { id: number }
+  > = parse('mutation Example($id: Int) { example(id: $id) }');
+
+  const TypedUser: FC = () => {
+    const [s, e] = useMutation(TypedMutation);
+    const data: { example: string } | undefined = s.data;
+    // @ts-expect-error
+    const invalid: { example: number } | undefined = s.data;
+    execute = () => {
+      // @ts-expect-error
+      e({ id: '1' });
+      return e({ id: 1 });
+    };
+    return <p>{[data, invalid]}</p>;
+  };
+
+  renderer.create(<TypedUser />);
+  const result = await execute();
+  const data: { example: string } | undefined = result.data;
+  expect(data).toBe(1);
+  expect(client.executeMutation).toBeCalledTimes(2);
+});
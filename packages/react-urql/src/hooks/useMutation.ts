@@ -7,6 +7,7 @@ import {
   OperationContext,
   CombinedError,
   createRequest,
+  TypedDocumentNode,
 } from '@urql/core';
 
 import { useClient } from '../context';
@@ -28,8 +29,8 @@ export type UseMutationResponse<T, V> = [
   ) => Promise<OperationResult<T>>
 ];
 
-export const useMutation = <T = any, V = object>(
-  query: DocumentNode | string
+export const useMutation = <T = any, V extends object = object>(
+  query: DocumentNode | TypedDocumentNode<T, V> | string
 ): UseMutationResponse<T, V> => {
   const isMounted = useRef(true);
   const client = useClient();
@@ -41,10 +42,7 @@ export const useMutation = <T = any, V = object>(
       setState({ ...initialState, fetching: true });
 
       return pipe(
-        client.executeMutation(
-          createRequest(query, variables as any),
-          context || {}
-        ),
+        client.executeMutation(createRequest(query, variables), context || {}),
         toPromise
       ).then(result => {
         if (isMounted.current) {
@@ -2,7 +2,8 @@
 
 import { renderHook, act } from '@testing-library/react-hooks';
 import { interval, map, pipe } from 'wonka';
-import { RequestPolicy } from '@urql/core';
+import { parse } from 'graphql';
+import { RequestPolicy, TypedDocumentNode } from '@urql/core';
 
 import { useClient } from '../context';
 import { useQuery } from './useQuery';
@@ -304,4 +305,26 @@ describe('useQuery', () => {
     rerender({ query: mockQuery, variables: mockVariables, pause: true });
     expect(client.executeQuery).toBeCalledTimes(1);
   });
+
+  it('should infer data and variables types from typed documents', () => {
+    const TodoQuery: TypedDocumentNode<
+      { todo: { id: string } },
+      { id: number }
+    > = parse(mockQuery);
+
+    const { result } = renderHook(() =>
+      useQuery({ query: TodoQuery, variables: mockVariables })
+    );
+
+    const [state] = result.current;
+    const data: { todo: { id: string } } | undefined = state.data;
+    // @ts-expect-error
+    const invalid: { todo: { id: number } } | undefined = state.data;
+    expect([data, invalid]).toEqual([undefined, undefined]);
+
+    renderHook(() =>
+      // @ts-expect-error
+      useQuery({ query: TodoQuery, variables: { id: '1' } })
+    );
+  });
 });
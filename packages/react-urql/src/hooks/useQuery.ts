@@ -1,15 +1,20 @@
 import { DocumentNode } from 'graphql';
 import { useCallback, useMemo } from 'react';
 import { pipe, concat, fromValue, switchMap, map, scan } from 'wonka';
-import { CombinedError, OperationContext, RequestPolicy } from '@urql/core';
+import {
+  CombinedError,
+  OperationContext,
+  RequestPolicy,
+  TypedDocumentNode,
+} from '@urql/core';
 
 import { useClient } from '../context';
 import { useSource, useBehaviourSubject } from './useSource';
 import { useRequest } from './useRequest';
 import { initialState } from './constants';
 
-export interface UseQueryArgs<V> {
-  query: string | DocumentNode;
+export interface UseQueryArgs<V = object, T = any> {
+  query: string | DocumentNode | TypedDocumentNode<T, V>;
   variables?: V;
   requestPolicy?: RequestPolicy;
   pollInterval?: number;
@@ -30,8 +35,8 @@ export type UseQueryResponse<T> = [
   (opts?: Partial<OperationContext>) => void
 ];
 
-export const useQuery = <T = any, V = object>(
-  args: UseQueryArgs<V>
+export const useQuery = <T = any, V extends object = object>(
+  args: UseQueryArgs<V, T>
 ): UseQueryResponse<T> => {
   const client = useClient();
 
@@ -16,8 +16,9 @@ jest.mock('../context', () => {
 
 import React, { FC } from 'react';
 import renderer, { act } from 'react-test-renderer';
+import { parse } from 'graphql';
 import { empty } from 'wonka';
-import { OperationContext } from '@urql/core';
+import { OperationContext, TypedDocumentNode } from '@urql/core';
 
 import { useSubscription, UseSubscriptionState } from './useSubscription';
 import { useClient } from '../context';
@@ -134,3 +135,26 @@ describe('pause', () => {
     expect(state).toMatchObject({ fetching: false });
   });
 });
+
+it('infers data and variables types from typed documents', () => {
+  const TypedSubscription: TypedDocumentNode<
+    { example: string },
+    { id: number }
+  > = parse('subscription Example($id: Int) { example(id: $id) }');
+
+  const TypedUser: FC = () => {
+    const [result] = useSubscription({
+      query: TypedSubscription,
+      variables: { id: 1 },
+    });
+    const data: { example: string } | undefined = result.data;
+    // @ts-expect-error
+    const invalid: { example: number } | undefined = result.data;
+    // @ts-expect-error
+    useSubscription({ query: TypedSubscription, variables: { id: '1' } });
+    return <p>{[data, invalid]}</p>;
+  };
+
+  renderer.create(<TypedUser />);
+  expect(client.executeSubscription).toBeCalledTimes(2);
+});
@@ -1,15 +1,15 @@
 import { DocumentNode } from 'graphql';
 import { useCallback, useRef, useMemo } from 'react';
 import { pipe, concat, fromValue, switchMap, map, scan } from 'wonka';
-import { CombinedError, OperationContext } from '@urql/core';
+import { CombinedError, OperationContext, TypedDocumentNode } from '@urql/core';
 
 import { useClient } from '../context';
 import { useSource, useBehaviourSubject } from './useSource';
 import { useRequest } from './useRequest';
 import { initialState } from './constants';
 
-export interface UseSubscriptionArgs<V> {
-  query: DocumentNode | string;
+export interface UseSubscriptionArgs<V = object, T = any> {
+  query: DocumentNode | TypedDocumentNode<T, V> | string;
   variables?: V;
   pause?: boolean;
   context?: Partial<OperationContext>;
@@ -30,8 +30,8 @@ export type UseSubscriptionResponse<T> = [
   (opts?: Partial<OperationContext>) => void
 ];
 
-export const useSubscription = <T = any, R = T, V = object>(
-  args: UseSubscriptionArgs<V>,
+export const useSubscription = <T = any, R = T, V extends object = object>(
+  args: UseSubscriptionArgs<V, T>,
   handler?: SubscriptionHandler<T, R>
 ): UseSubscriptionResponse<R> => {
   const client = useClient();
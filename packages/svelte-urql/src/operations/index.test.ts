@@ -0,0 +1,89 @@
+jest.mock('../context', () => {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const { fromValue } = require('wonka');
+  const result = { data: { example: 'test' } };
+  const mock = {
+    query: jest.fn(() => fromValue(result)),
+    subscription: jest.fn(() => fromValue(result)),
+    mutation: jest.fn(() => ({ toPromise: () => Promise.resolve(result) })),
+  };
+
+  return {
+    getClient: () => mock,
+  };
+});
+
+import { parse } from 'graphql';
+import { TypedDocumentNode } from '@urql/core';
+
+import { getClient } from '../context';
+import { query, subscription, mutate } from './index';
+
+const client = (getClient() as unknown) as {
+  query: jest.Mock;
+  subscription: jest.Mock;
+  mutation: jest.Mock;
+};
+
+const TypedQuery: TypedDocumentNode<
+  { example: string },
+  { id: number }
+> = parse('query Example($id: Int) { example(id: $id) }');
+
+beforeEach(() => {
+  client.query.mockClear();
+  client.subscription.mockClear();
+  client.mutation.mockClear();
+});
+
+it('infers data and variables types from typed documents in query', async () => {
+  const result = await query({ query: TypedQuery, variables: { id: 1 } });
+  const data: { example: string } | undefined = result.data;
+  // @ts-expect-error
+  const invalid: { example: number } | undefined = result.data;
+  // @ts-expect-error
+  query({ query: TypedQuery, variables: { id: '1' } });
+
+  expect(data).toBe(invalid);
+  expect(result.fetching).toBe(true);
+  expect(client.query).toHaveBeenCalledWith(TypedQuery, { id: 1 }, {});
+});
+
+it('infers data and variables types from typed documents in subscription', () => {
+  const store = subscription({ query: TypedQuery, variables: { id: 1 } });
+
+  let data: { example: string } | undefined;
+  store.subscribe(result => {
+    data = result.data;
+    // @ts-expect-error
+    const invalid: { example: number } | undefined = result.data;
+    expect(data).toBe(invalid);
+  })();
+
+  // @ts-expect-error
+  subscription({ query: TypedQuery, variables: { id: '1' } });
+
+  expect(data).toEqual({ example: 'test' });
+  expect(client.subscription).toHaveBeenCalledWith(
+    TypedQuery,
+    { id: 1 },
+    undefined
+  );
+});
+
+it('infers data and variables types from typed documents in mutate', async () => {
+  const result = await mutate({ query: TypedQuery, variables: { id: 1 } });
+  const data: { example: string } | undefined = result.data;
+  // @ts-expect-error
+  const invalid: { example: number } | undefined = result.data;
+  // @ts-expect-error
+  mutate({ query: TypedQuery, variables: { id: '1' } });
+
+  expect(data).toBe(invalid);
+  expect(data).toEqual({ example: 'test' });
+  expect(client.mutation).toHaveBeenCalledWith(
+    TypedQuery,
+    { id: 1 },
+    undefined
+  );
+});
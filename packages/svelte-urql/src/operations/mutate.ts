@@ -1,12 +1,16 @@
 import { pipe, subscribe } from 'wonka';
-import { OperationResult, OperationContext } from '@urql/core';
+import {
+  OperationResult,
+  OperationContext,
+  TypedDocumentNode,
+} from '@urql/core';
 import { Readable } from 'svelte/store';
 import { DocumentNode } from 'graphql';
 
 import { getClient } from '../context';
 
-export interface MutationArguments<V> {
-  query: string | DocumentNode;
+export interface MutationArguments<V = object, T = any> {
+  query: string | DocumentNode | TypedDocumentNode<T, V>;
   variables?: V;
   context?: Partial<OperationContext>;
 }
@@ -14,28 +18,26 @@ export interface MutationArguments<V> {
 export interface MutationStore<T = any, V = object>
   extends Readable<OperationResult<T>>,
     PromiseLike<OperationResult<T>> {
-  (additionalArgs?: Partial<MutationArguments<V>>): Promise<OperationResult<T>>;
+  (additionalArgs?: Partial<MutationArguments<V, T>>): Promise<
+    OperationResult<T>
+  >;
 }
 
-export const mutate = <T = any, V = object>(
-  args: MutationArguments<V>
+export const mutate = <T = any, V extends object = object>(
+  args: MutationArguments<V, T>
 ): MutationStore<T, V> => {
   const client = getClient();
 
-  function mutate$(additionalArgs?: Partial<MutationArguments<V>>) {
+  function mutate$(additionalArgs?: Partial<MutationArguments<V, T>>) {
     const mergedArgs = { ...args, ...additionalArgs };
     return client
-      .mutation(
-        mergedArgs.query,
-        mergedArgs.variables as any,
-        mergedArgs.context
-      )
+      .mutation(mergedArgs.query, mergedArgs.variables, mergedArgs.context)
       .toPromise();
   }
 
   mutate$.subscribe = (onValue: (result: OperationResult<T>) => void) => {
     return pipe(
-      client.mutation(args.query, args.variables as any, args.context),
+      client.mutation(args.query, args.variables, args.context),
       subscribe(onValue)
     ).unsubscribe;
   };
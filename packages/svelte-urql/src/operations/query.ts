@@ -14,7 +14,12 @@ import {
   toPromise,
 } from 'wonka';
 
-import { RequestPolicy, OperationContext, CombinedError } from '@urql/core';
+import {
+  RequestPolicy,
+  OperationContext,
+  CombinedError,
+  TypedDocumentNode,
+} from '@urql/core';
 
 import { Readable } from 'svelte/store';
 import { DocumentNode } from 'graphql';
@@ -22,8 +27,8 @@ import { DocumentNode } from 'graphql';
 import { getClient } from '../context';
 import { initialState } from './constants';
 
-export interface QueryArguments<V> {
-  query: string | DocumentNode;
+export interface QueryArguments<V = object, T = any> {
+  query: string | DocumentNode | TypedDocumentNode<T, V>;
   variables?: V;
   requestPolicy?: RequestPolicy;
   pollInterval?: number;
@@ -42,14 +47,14 @@ export interface QueryResult<T> {
 export interface QueryStore<T = any, V = object>
   extends Readable<QueryResult<T>>,
     PromiseLike<QueryResult<T>> {
-  (args?: Partial<QueryArguments<V>>): QueryStore<T>;
+  (args?: Partial<QueryArguments<V, T>>): QueryStore<T>;
 }
 
-export const query = <T = any, V = object>(
-  args: QueryArguments<V>
+export const query = <T = any, V extends object = object>(
+  args: QueryArguments<V, T>
 ): QueryStore<T, V> => {
   const client = getClient();
-  const { source: args$, next: nextArgs } = makeSubject<QueryArguments<V>>();
+  const { source: args$, next: nextArgs } = makeSubject<QueryArguments<V, T>>();
 
   const queryResult$ = pipe(
     args$,
@@ -62,7 +67,7 @@ export const query = <T = any, V = object>(
         // Initially set fetching to true
         fromValue({ fetching: true, stale: false }),
         pipe(
-          client.query<T>(args.query, args.variables, {
+          client.query(args.query, args.variables, {
             requestPolicy: args.requestPolicy,
             pollInterval: args.pollInterval,
             ...args.context,
@@ -92,7 +97,7 @@ export const query = <T = any, V = object>(
 
   publish(queryResult$);
 
-  const queryStore = (baseArgs: QueryArguments<V>): QueryStore<T, V> => {
+  const queryStore = (baseArgs: QueryArguments<V, T>): QueryStore<T, V> => {
     const result$ = pipe(
       queryResult$,
       onStart(() => {
@@ -100,7 +105,7 @@ export const query = <T = any, V = object>(
       })
     );
 
-    function query$(args?: Partial<QueryArguments<V>>) {
+    function query$(args?: Partial<QueryArguments<V, T>>) {
       return queryStore({
         ...baseArgs,
         ...args,
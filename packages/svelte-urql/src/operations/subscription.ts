@@ -12,15 +12,15 @@ import {
   publish,
 } from 'wonka';
 
-import { OperationContext, CombinedError } from '@urql/core';
+import { OperationContext, CombinedError, TypedDocumentNode } from '@urql/core';
 import { Readable } from 'svelte/store';
 import { DocumentNode } from 'graphql';
 
 import { getClient } from '../context';
 import { initialState } from './constants';
 
-export interface SubscriptionArguments<V> {
-  query: string | DocumentNode;
+export interface SubscriptionArguments<V = object, T = any> {
+  query: string | DocumentNode | TypedDocumentNode<T, V>;
   variables?: V;
   pause?: boolean;
   context?: Partial<OperationContext>;
@@ -38,16 +38,16 @@ export interface SubscriptionResult<T> {
 
 export interface SubscriptionStore<T = any, R = T, V = object>
   extends Readable<SubscriptionResult<T>> {
-  (args?: Partial<SubscriptionArguments<V>>): SubscriptionStore<T, R, V>;
+  (args?: Partial<SubscriptionArguments<V, T>>): SubscriptionStore<T, R, V>;
 }
 
-export const subscription = <T = any, R = T, V = object>(
-  args: SubscriptionArguments<V>,
+export const subscription = <T = any, R = T, V extends object = object>(
+  args: SubscriptionArguments<V, T>,
   handler?: SubscriptionHandler<T, R>
 ): SubscriptionStore<T, R, V> => {
   const client = getClient();
   const { source: args$, next: nextArgs } = makeSubject<
-    SubscriptionArguments<V>
+    SubscriptionArguments<V, T>
   >();
 
   const subscriptionResult$ = pipe(
@@ -61,7 +61,7 @@ export const subscription = <T = any, R = T, V = object>(
         // Initially set fetching to true
         fromValue({ fetching: true, stale: false }),
         pipe(
-          client.subscription<T>(args.query, args.variables, args.context),
+          client.subscription(args.query, args.variables, args.context),
           map(({ stale, data, error, extensions }) => ({
             fetching: false,
             stale: !!stale,
@@ -90,9 +90,9 @@ export const subscription = <T = any, R = T, V = object>(
   publish(subscriptionResult$);
 
   const subscriptionStore = (
-    baseArgs: SubscriptionArguments<V>
+    baseArgs: SubscriptionArguments<V, T>
   ): SubscriptionStore<T, R, V> => {
-    function subscription$(args?: Partial<SubscriptionArguments<V>>) {
+    function subscription$(args?: Partial<SubscriptionArguments<V, T>>) {
       return subscriptionStore({
         ...baseArgs,
         ...args,
@@ -0,0 +1,33 @@
+import { App, getCurrentInstance, inject, provide } from 'vue';
+import { Client, ClientOptions } from '@urql/core';
+
+const CLIENT = '$urql';
+
+export const provideClient = (opts: ClientOptions | Client): Client => {
+  const client = opts instanceof Client ? opts : new Client(opts);
+  provide(CLIENT, client);
+  return client;
+};
+
+/** A Vue plugin that provides a Client to the entire app, e.g. `app.use(urql, options)` */
+export const install = (app: App, opts: ClientOptions | Client): void => {
+  const client = opts instanceof Client ? opts : new Client(opts);
+  app.provide(CLIENT, client);
+};
+
+export const useClient = (): Client => {
+  if (process.env.NODE_ENV !== 'production' && !getCurrentInstance()) {
+    throw new Error(
+      'use* functions may only be called during the `setup()` or other lifecycle hooks.'
+    );
+  }
+
+  const client = inject<Client>(CLIENT);
+  if (process.env.NODE_ENV !== 'production' && !client) {
+    throw new Error(
+      'No urql Client was provided. Did you forget to install the plugin or call `provideClient` in a parent?'
+    );
+  }
+
+  return client!;
+};
@@ -0,0 +1,55 @@
+import { createApp } from 'vue';
+import { pipe, makeSubject, map } from 'wonka';
+import { createClient, OperationResult } from '@urql/core';
+
+import { install } from './useClient';
+import { useMutation } from './useMutation';
+
+const client = createClient({ url: '/graphql', exchanges: [] });
+
+const mountSetup = <R>(setup: () => R): R => {
+  let result: R | undefined;
+  const app = createApp({
+    setup() {
+      result = setup();
+      return () => null;
+    },
+  });
+
+  app.use(install, client);
+  app.mount(document.createElement('div'));
+  return result!;
+};
+
+describe('useMutation', () => {
+  it('executes mutations and updates its state', async () => {
+    const subject = makeSubject<any>();
+    const executeMutation = jest
+      .spyOn(client, 'executeMutation')
+      .mockImplementation(request =>
+        pipe(
+          subject.source,
+          map(data => ({ operation: request, data } as OperationResult))
+        )
+      );
+
+    const mutation = mountSetup(() =>
+      useMutation('mutation ($id: ID) { test(id: $id) }')
+    );
+
+    expect(mutation.fetching.value).toBe(false);
+
+    const promise = mutation.executeMutation({ id: 1 });
+    expect(mutation.fetching.value).toBe(true);
+    expect(executeMutation).toHaveBeenCalledTimes(1);
+    expect(executeMutation.mock.calls[0][0].variables).toEqual({ id: 1 });
+
+    subject.next({ test: true });
+    subject.complete();
+
+    const result = await promise;
+    expect(result.data).toEqual({ test: true });
+    expect(mutation.fetching.value).toBe(false);
+    expect(mutation.data.value).toEqual({ test: true });
+  });
+});
@@ -0,0 +1,67 @@
+import { DocumentNode } from 'graphql';
+import { Ref, ref, shallowRef } from 'vue';
+import { pipe, toPromise } from 'wonka';
+
+import {
+  OperationResult,
+  OperationContext,
+  CombinedError,
+  TypedDocumentNode,
+  createRequest,
+} from '@urql/core';
+
+import { useClient } from './useClient';
+
+export interface UseMutationResponse<T, V> {
+  fetching: Ref<boolean>;
+  stale: Ref<boolean>;
+  data: Ref<T | undefined>;
+  error: Ref<CombinedError | undefined>;
+  extensions: Ref<Record<string, any> | undefined>;
+  executeMutation(
+    variables?: V,
+    context?: Partial<OperationContext>
+  ): Promise<OperationResult<T>>;
+}
+
+export const useMutation = <T = any, V = object>(
+  query: DocumentNode | TypedDocumentNode<T, V> | string
+): UseMutationResponse<T, V> => {
+  const client = useClient();
+
+  const data: Ref<T | undefined> = shallowRef();
+  const error: Ref<CombinedError | undefined> = shallowRef();
+  const extensions: Ref<Record<string, any> | undefined> = shallowRef();
+  const fetching = ref(false);
+  const stale = ref(false);
+
+  return {
+    data,
+    error,
+    extensions,
+    fetching,
+    stale,
+    executeMutation(variables?: V, context?: Partial<OperationContext>) {
+      fetching.value = true;
+      stale.value = false;
+      data.value = undefined;
+      error.value = undefined;
+      extensions.value = undefined;
+
+      return pipe(
+        client.executeMutation<T>(
+          createRequest<T>(query, variables as any),
+          context || {}
+        ),
+        toPromise
+      ).then(result => {
+        fetching.value = false;
+        stale.value = !!result.stale;
+        data.value = result.data;
+        error.value = result.error;
+        extensions.value = result.extensions;
+        return result;
+      });
+    },
+  };
+};
@@ -0,0 +1,110 @@
+import { createApp, nextTick, ref, reactive } from 'vue';
+import { pipe, makeSubject, map } from 'wonka';
+import { createClient, OperationResult } from '@urql/core';
+
+import { install } from './useClient';
+import { useQuery, UseQueryState } from './useQuery';
+
+const client = createClient({ url: '/graphql', exchanges: [] });
+
+const mountSetup = <R>(setup: () => R): R => {
+  let result: R | undefined;
+  const app = createApp({
+    setup() {
+      result = setup();
+      return () => null;
+    },
+  });
+
+  app.use(install, client);
+  app.mount(document.createElement('div'));
+  return result!;
+};
+
+beforeEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('useQuery', () => {
+  it('runs queries and updates its state', () => {
+    const subject = makeSubject<any>();
+    const executeQuery = jest
+      .spyOn(client, 'executeQuery')
+      .mockImplementation(request =>
+        pipe(
+          subject.source,
+          map(data => ({ operation: request, data } as OperationResult))
+        )
+      );
+
+    const query = mountSetup(() =>
+      useQuery({ query: '{ test }', requestPolicy: 'network-only' })
+    );
+
+    expect(executeQuery).toHaveBeenCalledTimes(1);
+    expect(executeQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ variables: {} }),
+      { requestPolicy: 'network-only', pollInterval: undefined }
+    );
+
+    expect(query.fetching.value).toBe(true);
+    expect(query.data.value).toBe(undefined);
+
+    subject.next({ test: true });
+    expect(query.fetching.value).toBe(false);
+    expect(query.data.value).toEqual({ test: true });
+  });
+
+  it('reruns the query when reactive variables change', async () => {
+    const executeQuery = jest.spyOn(client, 'executeQuery');
+    const variables = reactive({ id: 1 });
+
+    mountSetup(() =>
+      useQuery({ query: 'query ($id: ID) { test(id: $id) }', variables })
+    );
+
+    expect(executeQuery).toHaveBeenCalledTimes(1);
+
+    variables.id = 2;
+    await nextTick();
+
+    expect(executeQuery).toHaveBeenCalledTimes(2);
+    expect(executeQuery.mock.calls[1][0].variables).toEqual({ id: 2 });
+  });
+
+  it('pauses and resumes using a pause ref', async () => {
+    const executeQuery = jest.spyOn(client, 'executeQuery');
+    const pause = ref(true);
+
+    const query = mountSetup(() => useQuery({ query: '{ test }', pause }));
+
+    expect(executeQuery).not.toHaveBeenCalled();
+    expect(query.fetching.value).toBe(false);
+
+    query.resume();
+    expect(pause.value).toBe(false);
+    await nextTick();
+
+    expect(executeQuery).toHaveBeenCalledTimes(1);
+    expect(query.fetching.value).toBe(true);
+  });
+
+  it('can be awaited in an async setup for Suspense', async () => {
+    const subject = makeSubject<any>();
+    jest.spyOn(client, 'executeQuery').mockImplementation(request =>
+      pipe(
+        subject.source,
+        map(data => ({ operation: request, data } as OperationResult))
+      )
+    );
+
+    const query = mountSetup(() => useQuery({ query: '{ test }' }));
+    const promise = new Promise<UseQueryState>(resolve => query.then(resolve));
+
+    subject.next({ test: true });
+
+    const state = await promise;
+    expect(state.fetching.value).toBe(false);
+    expect(state.data.value).toEqual({ test: true });
+  });
+});
@@ -0,0 +1,166 @@
+import { DocumentNode } from 'graphql';
+import { Ref, ref, shallowRef, watchEffect, isRef, unref } from 'vue';
+import { Source, Subscription, pipe, onEnd, subscribe } from 'wonka';
+
+import {
+  CombinedError,
+  OperationContext,
+  OperationResult,
+  RequestPolicy,
+  TypedDocumentNode,
+  createRequest,
+} from '@urql/core';
+
+import { useClient } from './useClient';
+
+export type MaybeRef<T> = T | Ref<T>;
+
+export interface UseQueryArgs<V = object, T = any> {
+  query: MaybeRef<string | DocumentNode | TypedDocumentNode<T, V>>;
+  variables?: MaybeRef<V>;
+  requestPolicy?: MaybeRef<RequestPolicy | undefined>;
+  pollInterval?: MaybeRef<number | undefined>;
+  context?: MaybeRef<Partial<OperationContext> | undefined>;
+  pause?: MaybeRef<boolean>;
+}
+
+export interface UseQueryState<T = any, V = object> {
+  fetching: Ref<boolean>;
+  stale: Ref<boolean>;
+  data: Ref<T | undefined>;
+  error: Ref<CombinedError | undefined>;
+  extensions: Ref<Record<string, any> | undefined>;
+  isPaused: Ref<boolean>;
+  pause(): void;
+  resume(): void;
+  executeQuery(opts?: Partial<OperationContext>): UseQueryResponse<T, V>;
+}
+
+/** The query's state, which may also be awaited in an async `setup()` to use it with Suspense */
+export type UseQueryResponse<T = any, V = object> = UseQueryState<T, V> &
+  PromiseLike<UseQueryState<T, V>>;
+
+export const useQuery = <T = any, V = object>(
+  args: UseQueryArgs<V, T>
+): UseQueryResponse<T, V> => {
+  const client = useClient();
+
+  const data: Ref<T | undefined> = shallowRef();
+  const error: Ref<CombinedError | undefined> = shallowRef();
+  const extensions: Ref<Record<string, any> | undefined> = shallowRef();
+  const fetching = ref(false);
+  const stale = ref(false);
+  // A ref passed as `pause` is shared, so that it may be toggled from either side
+  const isPaused: Ref<boolean> = isRef(args.pause)
+    ? args.pause
+    : ref(!!args.pause);
+
+  const source: Ref<Source<OperationResult<T>> | undefined> = shallowRef();
+
+  // This creates a request which will keep a stable reference
+  // if request.key doesn't change
+  const request = shallowRef(
+    createRequest<T>(unref(args.query), unref(args.variables) as any)
+  );
+
+  watchEffect(
+    () => {
+      const newRequest = createRequest<T>(
+        unref(args.query),
+        unref(args.variables) as any
+      );
+      if (request.value.key !== newRequest.key) request.value = newRequest;
+    },
+    { flush: 'pre' }
+  );
+
+  // Create a new query-source from client.executeQuery
+  const makeQuery$ = (opts?: Partial<OperationContext>) =>
+    client.executeQuery<T>(request.value, {
+      requestPolicy: unref(args.requestPolicy),
+      pollInterval: unref(args.pollInterval),
+      ...unref(args.context),
+      ...opts,
+    });
+
+  watchEffect(
+    () => {
+      source.value = !isPaused.value ? makeQuery$() : undefined;
+    },
+    { flush: 'pre' }
+  );
+
+  watchEffect(
+    onInvalidate => {
+      // Initially set fetching to true
+      fetching.value = !!source.value;
+      stale.value = false;
+      if (!source.value) return;
+
+      const { unsubscribe } = pipe(
+        source.value,
+        // When the source proactively closes, fetching is set to false
+        onEnd(() => {
+          fetching.value = false;
+          stale.value = false;
+        }),
+        subscribe(result => {
+          fetching.value = false;
+          stale.value = !!result.stale;
+          data.value = result.data;
+          error.value = result.error;
+          extensions.value = result.extensions;
+        })
+      );
+
+      onInvalidate(unsubscribe);
+    },
+    { flush: 'pre' }
+  );
+
+  const state: UseQueryState<T, V> = {
+    data,
+    error,
+    extensions,
+    fetching,
+    stale,
+    isPaused,
+    pause() {
+      isPaused.value = true;
+    },
+    resume() {
+      isPaused.value = false;
+    },
+    executeQuery(opts?: Partial<OperationContext>) {
+      source.value = makeQuery$(opts);
+      return response;
+    },
+  };
+
+  const response: UseQueryResponse<T, V> = {
+    ...state,
+    then(onFulfilled, onRejected) {
+      let sub: Subscription | void;
+      return new Promise<UseQueryState<T, V>>(resolve => {
+        if (!source.value) return resolve(state);
+
+        // Resolves once the first non-stale result has been received
+        let hasResult = false;
+        sub = pipe(
+          source.value,
+          subscribe(result => {
+            if (!result.stale) {
+              if (sub) sub.unsubscribe();
+              hasResult = true;
+              resolve(state);
+            }
+          })
+        );
+
+        if (hasResult) sub.unsubscribe();
+      }).then(onFulfilled, onRejected);
+    },
+  };
+
+  return response;
+};
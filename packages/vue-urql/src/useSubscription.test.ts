@@ -0,0 +1,77 @@
+import { createApp, nextTick, ref } from 'vue';
+import { pipe, makeSubject, map } from 'wonka';
+import { createClient, OperationResult } from '@urql/core';
+
+import { install } from './useClient';
+import { useSubscription } from './useSubscription';
+
+const client = createClient({ url: '/graphql', exchanges: [] });
+
+const mountSetup = <R>(setup: () => R): R => {
+  let result: R | undefined;
+  const app = createApp({
+    setup() {
+      result = setup();
+      return () => null;
+    },
+  });
+
+  app.use(install, client);
+  app.mount(document.createElement('div'));
+  return result!;
+};
+
+beforeEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('useSubscription', () => {
+  it('merges results using a handler', () => {
+    const subject = makeSubject<any>();
+    const executeSubscription = jest
+      .spyOn(client, 'executeSubscription')
+      .mockImplementation(request =>
+        pipe(
+          subject.source,
+          map(data => ({ operation: request, data } as OperationResult))
+        )
+      );
+
+    const subscription = mountSetup(() =>
+      useSubscription<{ count: number }, number[]>(
+        { query: 'subscription { count }' },
+        (prev = [], data) => [...prev, data.count]
+      )
+    );
+
+    expect(executeSubscription).toHaveBeenCalledTimes(1);
+    expect(subscription.fetching.value).toBe(true);
+
+    subject.next({ count: 1 });
+    subject.next({ count: 2 });
+    expect(subscription.data.value).toEqual([1, 2]);
+
+    subject.complete();
+    expect(subscription.fetching.value).toBe(false);
+  });
+
+  it('stops the subscription when paused', async () => {
+    const subject = makeSubject<any>();
+    jest
+      .spyOn(client, 'executeSubscription')
+      .mockImplementation(() => subject.source);
+
+    const pause = ref(false);
+    const subscription = mountSetup(() =>
+      useSubscription({ query: 'subscription { count }', pause })
+    );
+
+    expect(subscription.fetching.value).toBe(true);
+
+    pause.value = true;
+    await nextTick();
+
+    expect(subscription.isPaused.value).toBe(true);
+    expect(subscription.fetching.value).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+import { DocumentNode } from 'graphql';
+import { Ref, ref, shallowRef, watchEffect, isRef, unref } from 'vue';
+import { Source, pipe, onEnd, subscribe } from 'wonka';
+
+import {
+  CombinedError,
+  OperationContext,
+  OperationResult,
+  TypedDocumentNode,
+  createRequest,
+} from '@urql/core';
+
+import { useClient } from './useClient';
+import { MaybeRef } from './useQuery';
+
+export interface UseSubscriptionArgs<V = object, T = any> {
+  query: MaybeRef<string | DocumentNode | TypedDocumentNode<T, V>>;
+  variables?: MaybeRef<V>;
+  context?: MaybeRef<Partial<OperationContext> | undefined>;
+  pause?: MaybeRef<boolean>;
+}
+
+export type SubscriptionHandler<T, R> = (prev: R | undefined, data: T) => R;
+
+export interface UseSubscriptionResponse<T = any, R = T, V = object> {
+  fetching: Ref<boolean>;
+  stale: Ref<boolean>;
+  data: Ref<R | undefined>;
+  error: Ref<CombinedError | undefined>;
+  extensions: Ref<Record<string, any> | undefined>;
+  isPaused: Ref<boolean>;
+  pause(): void;
+  resume(): void;
+  executeSubscription(
+    opts?: Partial<OperationContext>
+  ): UseSubscriptionResponse<T, R, V>;
+}
+
+export const useSubscription = <T = any, R = T, V = object>(
+  args: UseSubscriptionArgs<V, T>,
+  handler?: SubscriptionHandler<T, R>
+): UseSubscriptionResponse<T, R, V> => {
+  const client = useClient();
+
+  const data: Ref<R | undefined> = shallowRef();
+  const error: Ref<CombinedError | undefined> = shallowRef();
+  const extensions: Ref<Record<string, any> | undefined> = shallowRef();
+  const fetching = ref(false);
+  const stale = ref(false);
+  // A ref passed as `pause` is shared, so that it may be toggled from either side
+  const isPaused: Ref<boolean> = isRef(args.pause)
+    ? args.pause
+    : ref(!!args.pause);
+
+  const source: Ref<Source<OperationResult<T>> | undefined> = shallowRef();
+  // The previous data is kept untracked, since results may arrive synchronously
+  // while the effect below is running
+  let prevData: R | undefined;
+
+  // This creates a request which will keep a stable reference
+  // if request.key doesn't change
+  const request = shallowRef(
+    createRequest<T>(unref(args.query), unref(args.variables) as any)
+  );
+
+  watchEffect(
+    () => {
+      const newRequest = createRequest<T>(
+        unref(args.query),
+        unref(args.variables) as any
+      );
+      if (request.value.key !== newRequest.key) request.value = newRequest;
+    },
+    { flush: 'pre' }
+  );
+
+  // Create a new subscription-source from client.executeSubscription
+  const makeSubscription$ = (opts?: Partial<OperationContext>) =>
+    client.executeSubscription<T>(request.value, {
+      ...unref(args.context),
+      ...opts,
+    });
+
+  watchEffect(
+    () => {
+      source.value = !isPaused.value ? makeSubscription$() : undefined;
+    },
+    { flush: 'pre' }
+  );
+
+  watchEffect(
+    onInvalidate => {
+      // Initially set fetching to true
+      fetching.value = !!source.value;
+      stale.value = false;
+      if (!source.value) return;
+
+      const { unsubscribe } = pipe(
+        source.value,
+        // When the source proactively closes, fetching is set to false
+        onEnd(() => {
+          fetching.value = false;
+          stale.value = false;
+        }),
+        subscribe(result => {
+          fetching.value = true;
+          stale.value = !!result.stale;
+          // If a handler has been passed, it's used to merge new data in
+          if (result.data !== undefined) {
+            prevData = data.value =
+              typeof handler === 'function'
+                ? handler(prevData, result.data)
+                : (result.data as any);
+          }
+          error.value = result.error;
+          extensions.value = result.extensions;
+        })
+      );
+
+      onInvalidate(unsubscribe);
+    },
+    { flush: 'pre' }
+  );
+
+  const response: UseSubscriptionResponse<T, R, V> = {
+    data,
+    error,
+    extensions,
+    fetching,
+    stale,
+    isPaused,
+    pause() {
+      isPaused.value = true;
+    },
+    resume() {
+      isPaused.value = false;
+    },
+    executeSubscription(opts?: Partial<OperationContext>) {
+      source.value = makeSubscription$(opts);
+      return response;
+    },
+  };
+
+  return response;
+};